@@ -4,10 +4,14 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { PWAInstallPrompt } from "@/components/PWAInstallPrompt";
+import { RecordingRecoveryPrompt } from "@/components/RecordingRecoveryPrompt";
 import Dashboard from "./pages/Dashboard";
 import Upload from "./pages/Upload";
 import Record from "./pages/Record";
 import MeetingDetails from "./pages/MeetingDetails";
+import ActionItems from "./pages/ActionItems";
+import Search from "./pages/Search";
+import SharedMeeting from "./pages/SharedMeeting";
 import Login from "./pages/Login";
 import Register from "./pages/Register";
 import Profile from "./pages/Profile";
@@ -23,6 +27,7 @@ const App = () => (
       <Sonner />
       <PWAInstallPrompt />
       <BrowserRouter>
+        <RecordingRecoveryPrompt />
         <Routes>
           <Route path="/login" element={<Login />} />
           <Route path="/register" element={<Register />} />
@@ -32,6 +37,9 @@ const App = () => (
           <Route path="/profile" element={<Profile />} />
           <Route path="/settings" element={<Settings />} />
           <Route path="/meeting/:meetingId" element={<MeetingDetails />} />
+          <Route path="/action-items" element={<ActionItems />} />
+          <Route path="/search" element={<Search />} />
+          <Route path="/share/:token" element={<SharedMeeting />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,192 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { CalendarIcon, Copy, Plus, Trash2, X } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { cn } from "@/lib/utils";
+import { participantName } from "@/lib/meetingFormat";
+import { useActionItemMutations } from "@/hooks/useActionItems";
+import type { ActionItem } from "@/services/apiService";
+
+interface ActionItemsCardProps {
+  meetingId: string;
+  actionItems: ActionItem[];
+  participants: string[]; // emails
+  onCopy: (text: string) => void;
+  readOnly?: boolean; // viewers can see but not change action items
+}
+
+const UNASSIGNED = "unassigned";
+
+// Action item deadlines are calendar dates; keep them as yyyy-MM-dd
+const toDeadline = (date: Date | undefined) => (date ? format(date, "yyyy-MM-dd") : null);
+
+export function ActionItemsCard({ meetingId, actionItems, participants, onCopy, readOnly = false }: ActionItemsCardProps) {
+  const { createItem, updateItem, deleteItem } = useActionItemMutations(meetingId);
+  const [newTask, setNewTask] = useState("");
+
+  // Items may have been assigned to someone who isn't in the participant list
+  const assignees = Array.from(new Set([
+    ...participants,
+    ...actionItems.map(item => item.assignee).filter((email): email is string => Boolean(email))
+  ]));
+
+  const copyAllActionItems = () => {
+    const text = actionItems.map((item, index) =>
+      `${index + 1}. ${item.task} (Assigned: ${item.assignee ? participantName(item.assignee) : 'Unassigned'}, Due: ${item.deadline ? format(parseISO(item.deadline), "PPP") : 'No due date'})`
+    ).join('\n');
+    onCopy(text);
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newTask.trim()) return;
+    createItem.mutate({ task: newTask.trim() });
+    setNewTask("");
+  };
+
+  const update = (item: ActionItem, updates: Partial<ActionItem>) => {
+    updateItem.mutate({ itemId: item.id, updates });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Action Items</CardTitle>
+        <Button variant="outline" size="sm" onClick={copyAllActionItems} disabled={actionItems.length === 0}>
+          <Copy className="w-4 h-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {actionItems.length === 0 && (
+          <p className="text-sm text-muted-foreground">No action items yet.</p>
+        )}
+
+        {actionItems.map((item) => {
+          const isTemporary = item.id.startsWith("temp_");
+          const isLocked = readOnly || isTemporary;
+          return (
+            <div
+              key={item.id}
+              className={cn(
+                "group flex items-start space-x-3 p-3 bg-muted/30 rounded-lg",
+                isTemporary && "opacity-60"
+              )}
+            >
+              <Checkbox
+                className="mt-1"
+                checked={item.status === "completed"}
+                disabled={isLocked}
+                onCheckedChange={(checked) => update(item, { status: checked ? "completed" : "pending" })}
+                aria-label="Mark as completed"
+              />
+              <div className="flex-1 space-y-2">
+                <p className={cn(
+                  "text-sm font-medium",
+                  item.status === "completed" && "line-through text-muted-foreground"
+                )}>
+                  {item.task}
+                </p>
+                <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                  <Select
+                    value={item.assignee ?? UNASSIGNED}
+                    onValueChange={(value) => update(item, { assignee: value === UNASSIGNED ? null : value })}
+                    disabled={isLocked}
+                  >
+                    <SelectTrigger className="h-7 w-auto min-w-[140px] text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                      {assignees.map(email => (
+                        <SelectItem key={email} value={email}>{participantName(email)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <Button variant="outline" size="sm" className="h-7 text-xs font-normal" disabled={isLocked}>
+                        <CalendarIcon className="w-3 h-3 mr-1" />
+                        {item.deadline ? format(parseISO(item.deadline), "PP") : "Set due date"}
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0" align="start">
+                      <Calendar
+                        mode="single"
+                        selected={item.deadline ? parseISO(item.deadline) : undefined}
+                        onSelect={(date) => update(item, { deadline: toDeadline(date) })}
+                        initialFocus
+                        className="p-3 pointer-events-auto"
+                      />
+                      {item.deadline && (
+                        <div className="border-t p-2">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="w-full text-xs"
+                            onClick={() => update(item, { deadline: null })}
+                          >
+                            <X className="w-3 h-3 mr-1" />
+                            Clear due date
+                          </Button>
+                        </div>
+                      )}
+                    </PopoverContent>
+                  </Popover>
+
+                  <Badge
+                    variant={item.status === 'completed' ? 'default' : 'secondary'}
+                    className={item.status === 'completed' ? 'bg-success text-success-foreground' : ''}
+                  >
+                    {item.status}
+                  </Badge>
+                </div>
+              </div>
+              {!readOnly && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                  onClick={() => deleteItem.mutate(item.id)}
+                  disabled={isTemporary}
+                  aria-label="Delete action item"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          );
+        })}
+
+        {/* Add item */}
+        {!readOnly && (
+          <form onSubmit={handleAdd} className="flex space-x-2">
+            <Input
+              value={newTask}
+              onChange={(e) => setNewTask(e.target.value)}
+              placeholder="Add an action item..."
+              className="flex-1"
+            />
+            <Button type="submit" variant="outline" disabled={!newTask.trim()}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
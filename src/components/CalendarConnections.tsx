@@ -0,0 +1,174 @@
+import { useRef, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { CalendarDays, FileUp, Loader2, Trash2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import {
+  useCalendarConnections,
+  useCalendarMutations,
+  useImportedCalendars
+} from "@/hooks/useCalendar";
+import { CALENDAR_PROVIDER_LABELS } from "@/services/calendarService";
+import type { CalendarProviderId } from "@/services/apiService";
+
+const OAUTH_PROVIDERS: CalendarProviderId[] = ["google", "microsoft"];
+
+export function CalendarConnections() {
+  const { data: connections = [] } = useCalendarConnections();
+  const { data: importedCalendars = [] } = useImportedCalendars();
+  const { connect, disconnect, importIcs, removeImported } = useCalendarMutations();
+  const [showCalDav, setShowCalDav] = useState(false);
+  const [calDav, setCalDav] = useState({ serverUrl: "", username: "", password: "" });
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleCalDavSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    connect.mutate(
+      { provider: "caldav", credentials: calDav },
+      {
+        onSuccess: () => {
+          setCalDav({ serverUrl: "", username: "", password: "" });
+          setShowCalDav(false);
+        }
+      }
+    );
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) importIcs.mutate(file);
+    e.target.value = "";
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarDays className="h-5 w-5" />
+          Calendars
+        </CardTitle>
+        <CardDescription>
+          Fill in meeting titles, times and attendees from your calendar
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Connected accounts */}
+        {connections.map(connection => (
+          <div key={connection.id} className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label>{CALENDAR_PROVIDER_LABELS[connection.provider]}</Label>
+              <p className="text-sm text-muted-foreground">{connection.accountName}</p>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => disconnect.mutate(connection.id)}
+              disabled={disconnect.isPending}
+            >
+              Disconnect
+            </Button>
+          </div>
+        ))}
+
+        <div className="flex flex-wrap gap-2">
+          {OAUTH_PROVIDERS.map(provider => (
+            <Button
+              key={provider}
+              variant="outline"
+              onClick={() => connect.mutate({ provider })}
+              disabled={connect.isPending}
+            >
+              Connect {CALENDAR_PROVIDER_LABELS[provider]}
+            </Button>
+          ))}
+          <Button variant="outline" onClick={() => setShowCalDav(!showCalDav)}>
+            Connect CalDAV
+          </Button>
+        </div>
+
+        {showCalDav && (
+          <form onSubmit={handleCalDavSubmit} className="space-y-3 p-4 bg-muted/30 rounded-lg">
+            <div className="space-y-2">
+              <Label htmlFor="caldav-url">Server URL</Label>
+              <Input
+                id="caldav-url"
+                type="url"
+                placeholder="https://caldav.example.com/"
+                value={calDav.serverUrl}
+                onChange={(e) => setCalDav(prev => ({ ...prev, serverUrl: e.target.value }))}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="caldav-username">Username</Label>
+              <Input
+                id="caldav-username"
+                value={calDav.username}
+                onChange={(e) => setCalDav(prev => ({ ...prev, username: e.target.value }))}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="caldav-password">App Password</Label>
+              <Input
+                id="caldav-password"
+                type="password"
+                value={calDav.password}
+                onChange={(e) => setCalDav(prev => ({ ...prev, password: e.target.value }))}
+                required
+              />
+            </div>
+            <Button type="submit" disabled={connect.isPending}>
+              {connect.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Connect
+            </Button>
+          </form>
+        )}
+
+        <Separator />
+
+        {/* Imported .ics files */}
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label>Imported Calendars</Label>
+            <p className="text-sm text-muted-foreground">
+              .ics files are kept on this device and work offline
+            </p>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={importIcs.isPending}>
+            <FileUp className="w-4 h-4 mr-2" />
+            Import .ics
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".ics,text/calendar"
+            className="hidden"
+            onChange={handleFileChange}
+          />
+        </div>
+        {importedCalendars.map(calendar => (
+          <div key={calendar.id} className="flex items-center justify-between p-3 bg-muted/30 rounded-lg">
+            <div className="min-w-0">
+              <p className="text-sm font-medium truncate">{calendar.name}</p>
+              <p className="text-xs text-muted-foreground">
+                Imported {formatDistanceToNow(new Date(calendar.importedAt), { addSuffix: true })}
+              </p>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => removeImported.mutate(calendar.id)}
+              aria-label={`Remove ${calendar.name}`}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,96 @@
+import { useRef } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { CalendarDays, FileUp, Loader2, Users } from "lucide-react";
+import { format } from "date-fns";
+import { cn } from "@/lib/utils";
+import { useCalendarEvents, useCalendarMutations } from "@/hooks/useCalendar";
+import type { CalendarEvent } from "@/services/calendarService";
+
+interface CalendarEventPickerProps {
+  onSelect: (event: CalendarEvent) => void;
+  selectedEventId?: string;
+}
+
+/**
+ * Today's calendar events, offered as a shortcut for filling in a meeting's
+ * title, time and attendees.
+ */
+export function CalendarEventPicker({ onSelect, selectedEventId }: CalendarEventPickerProps) {
+  const { data: events = [], isLoading } = useCalendarEvents();
+  const { importIcs } = useCalendarMutations();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) importIcs.mutate(file);
+    e.target.value = "";
+  };
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <CalendarDays className="w-4 h-4 text-primary" />
+          <span className="text-sm font-semibold">Today's calendar</span>
+        </div>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={importIcs.isPending}
+        >
+          {importIcs.isPending ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <FileUp className="w-4 h-4 mr-1" />}
+          Import .ics
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".ics,text/calendar"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-12 rounded-lg" />
+      ) : events.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No events today. Import an .ics file or{" "}
+          <Link to="/settings" className="text-primary hover:underline">connect a calendar</Link>
+          {" "}to fill in meeting details automatically.
+        </p>
+      ) : (
+        <div className="space-y-2 max-h-48 overflow-y-auto">
+          {events.map(event => (
+            <button
+              key={event.id}
+              type="button"
+              onClick={() => onSelect(event)}
+              className={cn(
+                "w-full text-left p-2 rounded-lg border transition-colors hover:bg-muted/50",
+                selectedEventId === event.id ? "border-primary bg-primary/5" : "border-transparent bg-muted/30"
+              )}
+            >
+              <p className="text-sm font-medium truncate">{event.title}</p>
+              <div className="flex items-center space-x-3 text-xs text-muted-foreground">
+                <span>
+                  {format(event.start, "p")}
+                  {event.end && ` – ${format(event.end, "p")}`}
+                </span>
+                {event.attendees.length > 0 && (
+                  <span className="flex items-center space-x-1">
+                    <Users className="w-3 h-3" />
+                    <span>{event.attendees.length}</span>
+                  </span>
+                )}
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,81 +3,96 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import { Send, Bot, User, Loader2 } from "lucide-react";
+import { Send, Bot, User, Loader2, Square, RotateCcw, AlertCircle, Trash2, Quote } from "lucide-react";
 import { cn } from "@/lib/utils";
-
-interface Message {
-  id: string;
-  type: "user" | "assistant";
-  content: string;
-  timestamp: Date;
-}
+import { useMeetingChat, type ChatMessage } from "@/hooks/useMeetingChat";
+import type { TranscriptCitation } from "@/services/apiService";
 
 interface ChatInterfaceProps {
   meetingId: string;
+  onCitationClick?: (citation: TranscriptCitation) => void;
+}
+
+interface CitationChipProps {
+  citation: TranscriptCitation;
+  onClick?: (citation: TranscriptCitation) => void;
+  compact?: boolean;
 }
 
-export function ChatInterface({ meetingId }: ChatInterfaceProps) {
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: "1",
-      type: "assistant",
-      content: "Hello! I'm your AI assistant. Feel free to ask me anything about this meeting - I can help you find specific information, clarify discussions, or provide additional insights.",
-      timestamp: new Date()
-    }
-  ]);
+const CitationChip = ({ citation, onClick, compact = false }: CitationChipProps) => (
+  <button
+    type="button"
+    onClick={() => onClick?.(citation)}
+    title={citation.quote ? `"${citation.quote}"` : `${citation.speaker} at ${citation.timestamp}`}
+    className={cn(
+      "inline-flex items-center gap-1 rounded-full bg-primary/10 text-primary font-medium hover:bg-primary/20 transition-colors",
+      compact ? "px-1.5 text-[10px] align-super" : "px-2 py-0.5 text-xs"
+    )}
+  >
+    {compact ? citation.id : (
+      <>
+        <Quote className="w-3 h-3" />
+        {citation.speaker} · {citation.timestamp}
+      </>
+    )}
+  </button>
+);
+
+// Replace `[n]` markers in an answer with chips for the matching citations
+const renderWithCitations = (
+  message: ChatMessage,
+  onCitationClick?: (citation: TranscriptCitation) => void
+) => {
+  if (!message.citations?.length) return message.content;
+
+  return message.content.split(/(\[\d+\])/g).map((part, index) => {
+    const citation = message.citations?.find(c => `[${c.id}]` === part);
+    return citation
+      ? <CitationChip key={index} citation={citation} onClick={onCitationClick} compact />
+      : part;
+  });
+};
+
+const WELCOME_MESSAGE: ChatMessage = {
+  id: "welcome",
+  type: "assistant",
+  content: "Hello! I'm your AI assistant. Feel free to ask me anything about this meeting - I can help you find specific information, clarify discussions, or provide additional insights.",
+  timestamp: new Date(),
+  status: "complete"
+};
+
+export function ChatInterface({ meetingId, onCitationClick }: ChatInterfaceProps) {
+  const {
+    messages: conversation,
+    isStreaming,
+    sendMessage,
+    stopGeneration,
+    retryMessage,
+    clearConversation
+  } = useMeetingChat(meetingId);
   const [input, setInput] = useState("");
-  const [isLoading, setIsLoading] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
+  const messages = [WELCOME_MESSAGE, ...conversation];
+  const lastMessage = messages[messages.length - 1];
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   };
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [conversation]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!input.trim() || isLoading) return;
-
-    const userMessage: Message = {
-      id: Date.now().toString(),
-      type: "user",
-      content: input.trim(),
-      timestamp: new Date()
-    };
+    if (!input.trim() || isStreaming) return;
 
-    setMessages(prev => [...prev, userMessage]);
+    const question = input;
     setInput("");
-    setIsLoading(true);
-
-    // Simulate AI response
-    setTimeout(() => {
-      const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        type: "assistant",
-        content: generateMockResponse(userMessage.content),
-        timestamp: new Date()
-      };
-      setMessages(prev => [...prev, assistantMessage]);
-      setIsLoading(false);
-    }, 1500);
-
     inputRef.current?.focus();
-  };
-
-  const generateMockResponse = (query: string): string => {
-    const responses = [
-      "Based on the meeting transcript, I can see that this topic was discussed around the 12-minute mark. The team agreed to move forward with the proposal.",
-      "Looking at the conversation, Sarah mentioned this point during the budget discussion. She suggested allocating more resources to this initiative.",
-      "From what I can analyze in the meeting, there were three main action items discussed: 1) Follow up with the client, 2) Prepare the quarterly report, and 3) Schedule the next team meeting.",
-      "According to the transcript, the decision was made to postpone this item until next quarter when more data becomes available.",
-      "The meeting participants showed strong agreement on this point. It was one of the key consensus items reached during the discussion."
-    ];
-    return responses[Math.floor(Math.random() * responses.length)];
+    await sendMessage(question);
   };
 
   return (
@@ -121,37 +136,65 @@ export function ChatInterface({ meetingId }: ChatInterfaceProps) {
                       : "bg-muted"
                   )}
                 >
-                  <p className="text-sm leading-relaxed">{message.content}</p>
-                  <p className={cn(
-                    "text-xs mt-2 opacity-70",
-                    message.type === "user" ? "text-primary-foreground" : "text-muted-foreground"
-                  )}>
-                    {message.timestamp.toLocaleTimeString([], { 
-                      hour: '2-digit', 
-                      minute: '2-digit' 
-                    })}
-                  </p>
+                  {message.status === "streaming" && !message.content ? (
+                    <div className="flex items-center space-x-2">
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                      <span className="text-sm text-muted-foreground">Thinking...</span>
+                    </div>
+                  ) : (
+                    <p className="text-sm leading-relaxed whitespace-pre-wrap">
+                      {message.type === "assistant"
+                        ? renderWithCitations(message, onCitationClick)
+                        : message.content}
+                      {message.status === "streaming" && (
+                        <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-foreground/60 animate-pulse" />
+                      )}
+                    </p>
+                  )}
+                  {message.citations && message.citations.length > 0 && (
+                    <div className="flex flex-wrap gap-1.5 mt-3">
+                      {message.citations.map(citation => (
+                        <CitationChip key={citation.id} citation={citation} onClick={onCitationClick} />
+                      ))}
+                    </div>
+                  )}
+                  {message.status === "error" && (
+                    <div className="flex items-center space-x-1 mt-2 text-xs text-destructive">
+                      <AlertCircle className="w-3 h-3" />
+                      <span>{message.error}</span>
+                    </div>
+                  )}
+                  {message.status === "stopped" && (
+                    <p className="text-xs mt-2 italic text-muted-foreground">Generation stopped</p>
+                  )}
+                  <div className="flex items-center justify-between mt-2 gap-2">
+                    <p className={cn(
+                      "text-xs opacity-70",
+                      message.type === "user" ? "text-primary-foreground" : "text-muted-foreground"
+                    )}>
+                      {message.timestamp.toLocaleTimeString([], { 
+                        hour: '2-digit', 
+                        minute: '2-digit' 
+                      })}
+                    </p>
+                    {message === lastMessage && !isStreaming &&
+                      (message.status === "error" || message.status === "stopped") && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-2 text-xs"
+                        onClick={() => retryMessage(message.id)}
+                      >
+                        <RotateCcw className="w-3 h-3 mr-1" />
+                        Retry
+                      </Button>
+                    )}
+                  </div>
                 </div>
               </div>
             </div>
           ))}
           
-          {isLoading && (
-            <div className="flex space-x-3 justify-start">
-              <Avatar className="w-8 h-8">
-                <AvatarFallback className="bg-accent text-accent-foreground">
-                  <Bot className="w-4 h-4" />
-                </AvatarFallback>
-              </Avatar>
-              <div className="bg-muted rounded-lg px-4 py-3 shadow-soft">
-                <div className="flex items-center space-x-2">
-                  <Loader2 className="w-4 h-4 animate-spin" />
-                  <span className="text-sm text-muted-foreground">Thinking...</span>
-                </div>
-              </div>
-            </div>
-          )}
-          
           <div ref={messagesEndRef} />
         </div>
 
@@ -162,16 +205,37 @@ export function ChatInterface({ meetingId }: ChatInterfaceProps) {
             value={input}
             onChange={(e) => setInput(e.target.value)}
             placeholder="Ask me anything about this meeting..."
-            disabled={isLoading}
             className="flex-1"
           />
-          <Button 
-            type="submit" 
-            disabled={!input.trim() || isLoading}
-            variant="default"
-          >
-            <Send className="w-4 h-4" />
-          </Button>
+          {isStreaming ? (
+            <Button 
+              type="button" 
+              variant="outline"
+              onClick={stopGeneration}
+              title="Stop generating"
+            >
+              <Square className="w-4 h-4" />
+            </Button>
+          ) : (
+            <Button 
+              type="submit" 
+              disabled={!input.trim()}
+              variant="default"
+            >
+              <Send className="w-4 h-4" />
+            </Button>
+          )}
+          {conversation.length > 0 && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={clearConversation}
+              title="Clear conversation"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          )}
         </form>
       </CardContent>
     </Card>
@@ -0,0 +1,128 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Copy, Download, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  EXPORT_FORMATS,
+  EXPORT_SECTIONS,
+  downloadExport,
+  exportFileName,
+  renderExport,
+  type ExportFormat,
+  type ExportSection
+} from "@/lib/transcriptExport";
+import type { Meeting } from "@/services/apiService";
+
+interface ExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  meeting: Meeting;
+}
+
+export function ExportDialog({ isOpen, onClose, meeting }: ExportDialogProps) {
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("md");
+  const [sections, setSections] = useState<ExportSection[]>(EXPORT_SECTIONS.map(section => section.key));
+  const [isExporting, setIsExporting] = useState(false);
+  const { toast } = useToast();
+
+  const formatInfo = EXPORT_FORMATS[exportFormat];
+  const canExport = formatInfo.captionsOnly ? Boolean(meeting.transcript?.length) : sections.length > 0;
+
+  const toggleSection = (section: ExportSection, checked: boolean) => {
+    setSections(prev => checked ? [...prev, section] : prev.filter(key => key !== section));
+  };
+
+  const runExport = async (action: "download" | "copy") => {
+    setIsExporting(true);
+    try {
+      const content = await renderExport(meeting, exportFormat, sections);
+      if (action === "copy" && typeof content === "string") {
+        await navigator.clipboard.writeText(content);
+        toast({ title: "Copied", description: `${formatInfo.label} copied to the clipboard.` });
+      } else {
+        downloadExport(content, exportFileName(meeting, exportFormat), exportFormat);
+      }
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export Meeting</DialogTitle>
+          <DialogDescription>
+            Files are generated on this device; nothing is uploaded.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-3">
+            <Label>Format</Label>
+            <RadioGroup value={exportFormat} onValueChange={(value) => setExportFormat(value as ExportFormat)}>
+              {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(key => (
+                <div key={key} className="flex items-center space-x-2">
+                  <RadioGroupItem value={key} id={`export-format-${key}`} />
+                  <Label htmlFor={`export-format-${key}`} className="font-normal">
+                    {EXPORT_FORMATS[key].label}
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <div className="space-y-3">
+            <Label>Include</Label>
+            {formatInfo.captionsOnly ? (
+              <p className="text-sm text-muted-foreground">
+                Caption files contain the timed transcript only.
+              </p>
+            ) : (
+              EXPORT_SECTIONS.map(section => (
+                <div key={section.key} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`export-section-${section.key}`}
+                    checked={sections.includes(section.key)}
+                    onCheckedChange={(checked) => toggleSection(section.key, checked === true)}
+                  />
+                  <Label htmlFor={`export-section-${section.key}`} className="font-normal">
+                    {section.label}
+                  </Label>
+                </div>
+              ))
+            )}
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            {!formatInfo.binary && (
+              <Button variant="outline" onClick={() => runExport("copy")} disabled={!canExport || isExporting}>
+                <Copy className="w-4 h-4 mr-2" />
+                Copy
+              </Button>
+            )}
+            <Button onClick={() => runExport("download")} disabled={!canExport || isExporting}>
+              {isExporting ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Download className="w-4 h-4 mr-2" />
+              )}
+              Download
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,56 @@
+import { useEffect, useRef } from 'react';
+import { Captions, Loader2 } from 'lucide-react';
+import type { TranscriptSegment } from '@/services/apiService';
+import type { LiveTranscriptionStatus } from '@/hooks/useLiveTranscription';
+
+// Older lines scroll out; the full transcript is attached on submit
+const VISIBLE_SEGMENTS = 4;
+
+interface LiveCaptionsProps {
+  status: LiveTranscriptionStatus;
+  segments: TranscriptSegment[];
+  partial: TranscriptSegment | null;
+}
+
+export function LiveCaptions({ status, segments, partial }: LiveCaptionsProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const lines = [...segments.slice(-VISIBLE_SEGMENTS), ...(partial ? [partial] : [])];
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight, behavior: 'smooth' });
+  }, [segments.length, partial?.text]);
+
+  if (status === 'off') return null;
+
+  return (
+    <div className="rounded-lg border bg-background/60 p-3 space-y-2">
+      <div className="flex items-center gap-2 text-xs font-medium text-muted-foreground">
+        <Captions className="h-4 w-4" />
+        Live captions
+        {status === 'finishing' && (
+          <span className="flex items-center gap-1 ml-auto">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            Finishing transcript...
+          </span>
+        )}
+      </div>
+
+      <div ref={scrollRef} className="max-h-32 overflow-y-auto space-y-1 text-sm" aria-live="polite">
+        {lines.length === 0 && status === 'live' && (
+          <p className="text-muted-foreground">Listening...</p>
+        )}
+        {lines.map(segment => (
+          <p key={segment.id} className={segment === partial ? 'text-muted-foreground' : undefined}>
+            <span className="font-medium text-primary">{segment.speaker}:</span> {segment.text}
+          </p>
+        ))}
+      </div>
+
+      {status === 'failed' && (
+        <p className="text-xs text-muted-foreground">
+          Live captions stopped. The full recording will still be transcribed after you submit.
+        </p>
+      )}
+    </div>
+  );
+}
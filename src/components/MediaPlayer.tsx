@@ -0,0 +1,263 @@
+import { forwardRef, useEffect, useImperativeHandle, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { Play, Pause, Volume2, VolumeX, RotateCcw, RotateCw, Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { formatTimestamp } from "@/lib/meetingFormat";
+import { useWaveform } from "@/hooks/useWaveform";
+
+export interface MediaPlayerHandle {
+  seek: (seconds: number, autoplay?: boolean) => void;
+}
+
+export interface MediaPlayerMarker {
+  id: string;
+  time: number; // seconds
+  label: string;
+}
+
+interface MediaPlayerProps {
+  src?: string;
+  peaks?: number[]; // precomputed waveform, 0-1
+  markers?: MediaPlayerMarker[]; // shown on the timeline; clicking one seeks there
+  onTimeUpdate?: (seconds: number) => void;
+}
+
+const PLAYBACK_RATES = ["0.75", "1", "1.25", "1.5", "2"];
+const SKIP_SECONDS = 10;
+
+export const MediaPlayer = forwardRef<MediaPlayerHandle, MediaPlayerProps>(
+  ({ src, peaks: precomputedPeaks, markers = [], onTimeUpdate }, ref) => {
+    const mediaRef = useRef<HTMLVideoElement>(null);
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [isLoading, setIsLoading] = useState(true);
+    const [hasVideo, setHasVideo] = useState(false);
+    const [currentTime, setCurrentTime] = useState(0);
+    const [duration, setDuration] = useState(0);
+    const [volume, setVolume] = useState(1);
+    const [isMuted, setIsMuted] = useState(false);
+    const [playbackRate, setPlaybackRate] = useState("1");
+    const [hasError, setHasError] = useState(false);
+    const peaks = useWaveform(src, { peaks: precomputedPeaks, duration });
+
+    // A new recording gets a fresh chance to load
+    useEffect(() => {
+      setHasError(false);
+      setIsLoading(true);
+    }, [src]);
+
+    // play() rejects when autoplay is blocked, playback is interrupted by a
+    // pause() during loading, or the source can't be played
+    const play = (media: HTMLVideoElement) => {
+      media.play().catch((error) => {
+        if (error instanceof DOMException && error.name === 'AbortError') return;
+        console.warn('Playback failed:', error);
+        setIsPlaying(false);
+      });
+    };
+
+    const seek = (seconds: number, autoplay = false) => {
+      const media = mediaRef.current;
+      if (!media) return;
+      media.currentTime = Math.min(Math.max(seconds, 0), media.duration || seconds);
+      setCurrentTime(media.currentTime);
+      onTimeUpdate?.(media.currentTime);
+      if (autoplay) play(media);
+    };
+
+    useImperativeHandle(ref, () => ({ seek }));
+
+    const togglePlay = () => {
+      const media = mediaRef.current;
+      if (!media) return;
+      if (media.paused) {
+        play(media);
+      } else {
+        media.pause();
+      }
+    };
+
+    const handleVolumeChange = ([value]: number[]) => {
+      if (!mediaRef.current) return;
+      mediaRef.current.volume = value;
+      mediaRef.current.muted = value === 0;
+      setVolume(value);
+      setIsMuted(value === 0);
+    };
+
+    const toggleMute = () => {
+      if (!mediaRef.current) return;
+      mediaRef.current.muted = !isMuted;
+      setIsMuted(!isMuted);
+    };
+
+    const handleRateChange = (rate: string) => {
+      if (mediaRef.current) mediaRef.current.playbackRate = Number(rate);
+      setPlaybackRate(rate);
+    };
+
+    // Seek by clicking anywhere on the waveform
+    const handleWaveformClick = (e: React.MouseEvent<HTMLDivElement>) => {
+      const rect = e.currentTarget.getBoundingClientRect();
+      seek(((e.clientX - rect.left) / rect.width) * duration);
+    };
+
+    if (!src || hasError) {
+      return (
+        <div className="bg-muted rounded-lg p-4 flex items-center justify-center h-32">
+          <div className="text-center">
+            <div className="w-16 h-16 bg-primary/20 rounded-full flex items-center justify-center mx-auto mb-2">
+              <Volume2 className="w-8 h-8 text-primary" />
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {hasError ? "The recording couldn't be loaded" : "Recording not available"}
+            </p>
+          </div>
+        </div>
+      );
+    }
+
+    const progress = duration ? currentTime / duration : 0;
+
+    return (
+      <div className="space-y-4">
+        <video
+          ref={mediaRef}
+          src={src}
+          preload="metadata"
+          playsInline
+          className={cn("w-full rounded-lg bg-black", !hasVideo && "hidden")}
+          onLoadedMetadata={(e) => {
+            setDuration(e.currentTarget.duration);
+            setHasVideo(e.currentTarget.videoWidth > 0);
+            setIsLoading(false);
+          }}
+          onTimeUpdate={(e) => {
+            setCurrentTime(e.currentTarget.currentTime);
+            onTimeUpdate?.(e.currentTarget.currentTime);
+          }}
+          onPlay={() => setIsPlaying(true)}
+          onPause={() => setIsPlaying(false)}
+          onEnded={() => setIsPlaying(false)}
+          onWaiting={() => setIsLoading(true)}
+          onCanPlay={() => setIsLoading(false)}
+          onError={() => {
+            setIsLoading(false);
+            setIsPlaying(false);
+            setHasError(true);
+          }}
+        />
+
+        {/* Waveform */}
+        {!hasVideo && (
+          <div
+            className="bg-muted rounded-lg px-3 h-24 flex items-center gap-px cursor-pointer"
+            onClick={handleWaveformClick}
+            role="slider"
+            aria-label="Seek"
+            aria-valuemin={0}
+            aria-valuemax={Math.round(duration)}
+            aria-valuenow={Math.round(currentTime)}
+          >
+            {peaks ? (
+              peaks.map((peak, index) => (
+                <div
+                  key={index}
+                  className={cn(
+                    "flex-1 rounded-full transition-colors",
+                    index / peaks.length < progress ? "bg-primary" : "bg-primary/25"
+                  )}
+                  style={{ height: `${Math.max(peak * 100, 4)}%` }}
+                />
+              ))
+            ) : (
+              <div className="w-full flex items-center justify-center text-sm text-muted-foreground">
+                <Volume2 className="w-5 h-5 mr-2 text-primary" />
+                Audio Player
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex items-center space-x-4">
+          <div className="flex items-center space-x-1">
+            <Button variant="ghost" size="icon" onClick={() => seek(currentTime - SKIP_SECONDS)} title="Back 10 seconds">
+              <RotateCcw className="w-4 h-4" />
+            </Button>
+            <Button variant="outline" size="icon" onClick={togglePlay} disabled={!duration}>
+              {isLoading && !duration ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : isPlaying ? (
+                <Pause className="w-4 h-4" />
+              ) : (
+                <Play className="w-4 h-4" />
+              )}
+            </Button>
+            <Button variant="ghost" size="icon" onClick={() => seek(currentTime + SKIP_SECONDS)} title="Forward 10 seconds">
+              <RotateCw className="w-4 h-4" />
+            </Button>
+          </div>
+
+          <div className="flex-1">
+            <div className="flex justify-between text-sm text-muted-foreground mb-1">
+              <span>{formatTimestamp(currentTime)}</span>
+              <span>{formatTimestamp(duration)}</span>
+            </div>
+            <div className="relative">
+              <Slider
+                value={[currentTime]}
+                max={duration || 1}
+                step={1}
+                onValueChange={([value]) => seek(value)}
+                disabled={!duration}
+              />
+              {duration > 0 && markers.map(marker => (
+                <button
+                  key={marker.id}
+                  type="button"
+                  className="absolute -top-2 h-2 w-2 -translate-x-1/2 rotate-45 bg-warning hover:scale-125 transition-transform"
+                  style={{ left: `${Math.min(marker.time / duration, 1) * 100}%` }}
+                  onClick={() => seek(marker.time, true)}
+                  title={`${formatTimestamp(marker.time)} ${marker.label}`}
+                  aria-label={`Jump to ${marker.label} at ${formatTimestamp(marker.time)}`}
+                />
+              ))}
+            </div>
+          </div>
+
+          <Select value={playbackRate} onValueChange={handleRateChange}>
+            <SelectTrigger className="w-20">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PLAYBACK_RATES.map(rate => (
+                <SelectItem key={rate} value={rate}>{rate}x</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <div className="hidden sm:flex items-center space-x-2 w-32">
+            <Button variant="outline" size="icon" onClick={toggleMute}>
+              {isMuted || volume === 0 ? <VolumeX className="w-4 h-4" /> : <Volume2 className="w-4 h-4" />}
+            </Button>
+            <Slider
+              value={[isMuted ? 0 : volume]}
+              max={1}
+              step={0.05}
+              onValueChange={handleVolumeChange}
+            />
+          </div>
+        </div>
+      </div>
+    );
+  }
+);
+
+MediaPlayer.displayName = "MediaPlayer";
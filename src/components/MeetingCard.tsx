@@ -2,8 +2,10 @@ import { Link } from "react-router-dom";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { Clock, Calendar, Users, Play } from "lucide-react";
+import { Clock, Calendar, Users, Play, Loader2 } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
+import { PROCESSING_STAGE_LABELS } from "@/lib/meetingFormat";
+import type { ProcessingStage } from "@/services/apiService";
 
 interface MeetingCardProps {
   id: string;
@@ -16,6 +18,7 @@ interface MeetingCardProps {
     avatar?: string;
   }>;
   status: "completed" | "processing" | "failed";
+  processingStage?: ProcessingStage;
 }
 
 export function MeetingCard({ 
@@ -25,7 +28,8 @@ export function MeetingCard({
   duration, 
   summary, 
   participants, 
-  status 
+  status,
+  processingStage
 }: MeetingCardProps) {
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -62,7 +66,10 @@ export function MeetingCard({
             </div>
             <Badge className={getStatusColor(status)} variant="secondary">
               {status === "completed" && <Play className="w-3 h-3 mr-1" />}
-              {status.charAt(0).toUpperCase() + status.slice(1)}
+              {status === "processing" && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+              {status === "processing" && processingStage
+                ? PROCESSING_STAGE_LABELS[processingStage]
+                : status.charAt(0).toUpperCase() + status.slice(1)}
             </Badge>
           </div>
         </CardHeader>
@@ -0,0 +1,35 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { AudioInputDevice } from "@/hooks/useAudioDevices";
+
+// Select items can't have an empty value, so the system default gets its own
+const DEFAULT_DEVICE = "default-device";
+
+interface MicrophoneSelectProps {
+  devices: AudioInputDevice[];
+  selectedDeviceId: string | null;
+  onSelect: (deviceId: string | null) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function MicrophoneSelect({ devices, selectedDeviceId, onSelect, disabled, className }: MicrophoneSelectProps) {
+  return (
+    <Select
+      value={selectedDeviceId ?? DEFAULT_DEVICE}
+      onValueChange={(value) => onSelect(value === DEFAULT_DEVICE ? null : value)}
+      disabled={disabled}
+    >
+      <SelectTrigger className={className} aria-label="Microphone">
+        <SelectValue placeholder="Choose a microphone" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={DEFAULT_DEVICE}>System default</SelectItem>
+        {devices.map(device => (
+          <SelectItem key={device.deviceId} value={device.deviceId}>
+            {device.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
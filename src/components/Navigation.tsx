@@ -8,7 +8,9 @@ import {
   LogOut, 
   Settings,
   MessageSquare,
-  Mic
+  Mic,
+  ListChecks,
+  Search
 } from "lucide-react";
 import {
   DropdownMenu,
@@ -58,6 +60,18 @@ export function Navigation() {
       icon: Mic,
       label: "Record",
       isActive: location.pathname === "/record"
+    },
+    {
+      path: "/search",
+      icon: Search,
+      label: "Search",
+      isActive: location.pathname === "/search"
+    },
+    {
+      path: "/action-items",
+      icon: ListChecks,
+      label: "Action Items",
+      isActive: location.pathname === "/action-items"
     }
   ];
 
@@ -0,0 +1,88 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Bookmark, StickyNote, X } from 'lucide-react';
+import { formatTimestamp } from '@/lib/meetingFormat';
+import type { MeetingBookmark } from '@/services/apiService';
+
+// Pressed on its own, outside text fields
+const BOOKMARK_HOTKEY = 'b';
+
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+interface RecordingBookmarksProps {
+  bookmarks: MeetingBookmark[];
+  onAdd: (note?: string) => void; // the caller stamps the recording time
+  onRemove: (id: string) => void;
+}
+
+export function RecordingBookmarks({ bookmarks, onAdd, onRemove }: RecordingBookmarksProps) {
+  const [note, setNote] = useState('');
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() !== BOOKMARK_HOTKEY || e.ctrlKey || e.metaKey || e.altKey || e.repeat) return;
+      if (isTyping(e.target)) return;
+      e.preventDefault();
+      onAdd();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onAdd]);
+
+  const addNote = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = note.trim();
+    if (!text) return;
+    onAdd(text);
+    setNote('');
+  };
+
+  return (
+    <div className="space-y-3">
+      <form onSubmit={addNote} className="flex items-center gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          className="gap-2 shrink-0"
+          onClick={() => onAdd()}
+          title={`Bookmark this moment (${BOOKMARK_HOTKEY.toUpperCase()})`}
+        >
+          <Bookmark className="h-4 w-4" />
+          Bookmark
+        </Button>
+        <Input
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Jot a note, press Enter to add it at this moment"
+          aria-label="Note"
+        />
+      </form>
+
+      {bookmarks.length > 0 && (
+        <ul className="max-h-32 overflow-y-auto space-y-1 text-sm">
+          {bookmarks.map(bookmark => (
+            <li key={bookmark.id} className="flex items-center gap-2">
+              {bookmark.note
+                ? <StickyNote className="h-3.5 w-3.5 text-primary shrink-0" />
+                : <Bookmark className="h-3.5 w-3.5 text-primary shrink-0" />}
+              <span className="font-mono text-muted-foreground">{formatTimestamp(bookmark.time)}</span>
+              <span className="truncate">{bookmark.note ?? 'Bookmarked moment'}</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 ml-auto shrink-0"
+                onClick={() => onRemove(bookmark.id)}
+                aria-label="Remove bookmark"
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
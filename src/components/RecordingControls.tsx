@@ -1,23 +1,72 @@
-import { useState } from 'react';
+import { useCallback, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Mic, Square, Pause, Play, AlertCircle } from 'lucide-react';
-import { useMediaRecorder } from '@/hooks/useMediaRecorder';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Mic, Square, Pause, Play, AlertCircle, AlertTriangle, Loader2, MonitorSpeaker } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useMediaRecorder, type RecordingSource } from '@/hooks/useMediaRecorder';
+import { useAudioInputDevices } from '@/hooks/useAudioDevices';
+import { useAudioLevel, type AudioLevelWarning } from '@/hooks/useAudioLevel';
+import { useUserSettings } from '@/hooks/useUserSettings';
 import { RecordingSubmissionModal } from './RecordingSubmissionModal';
+import { MicrophoneSelect } from './MicrophoneSelect';
+import { LiveCaptions } from './LiveCaptions';
+import { RecordingBookmarks } from './RecordingBookmarks';
 import { useToast } from '@/hooks/use-toast';
+import { deleteRecording, releaseRecording } from '@/services/recordingStore';
+import type { MeetingBookmark } from '@/services/apiService';
 
-export const RecordingControls = () => {
+const LEVEL_WARNINGS: Record<AudioLevelWarning, string> = {
+  silent: "No sound is coming in. Check that the right microphone is selected and not muted.",
+  clipping: "The input is too loud and distorting. Move away from the microphone or lower its volume.",
+};
+
+// Gain sliders go up to double the original level, for quiet inputs
+const MAX_GAIN = 2;
+
+interface RecordingControlsProps {
+  source: RecordingSource;
+  onSourceChange: (source: RecordingSource) => void;
+}
+
+export const RecordingControls = ({ source, onSourceChange }: RecordingControlsProps) => {
   const [showSubmissionModal, setShowSubmissionModal] = useState(false);
+  const [micGain, setMicGain] = useState(1);
+  const [tabGain, setTabGain] = useState(1);
+  const [liveCaptions, setLiveCaptions] = useState(false);
+  const [bookmarks, setBookmarks] = useState<MeetingBookmark[]>([]);
   const [recordingBlob, setRecordingBlob] = useState<Blob | null>(null);
   const { toast } = useToast();
+  const { devices, selectedDeviceId, isSavedDeviceMissing, selectDevice, refresh: refreshDevices } = useAudioInputDevices();
+  const { data: userSettings } = useUserSettings();
 
   const {
+    state,
+    stream,
+    tabAudioEnded,
     isRecording,
+    isPaused,
     recordingTime,
+    getRecordedSeconds,
+    sessionId,
+    liveTranscript,
     startRecording,
     stopRecording,
+    pauseRecording,
+    resumeRecording,
     error
-  } = useMediaRecorder();
+  } = useMediaRecorder({
+    deviceId: selectedDeviceId,
+    source,
+    audioQuality: userSettings?.preferences?.audioQuality,
+    micGain,
+    tabGain,
+    liveTranscription: liveCaptions,
+  });
+  const { level, warning } = useAudioLevel(stream, !isPaused);
 
   const formatTime = (seconds: number) => {
     const minutes = Math.floor(seconds / 60);
@@ -25,13 +74,27 @@ export const RecordingControls = () => {
     return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
   };
 
+  const addBookmark = useCallback((note?: string) => {
+    const time = Math.floor(getRecordedSeconds());
+    const id = `bookmark_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+    setBookmarks(prev => [...prev, { id, time, note }]);
+  }, [getRecordedSeconds]);
+
+  const removeBookmark = useCallback((id: string) => {
+    setBookmarks(prev => prev.filter(bookmark => bookmark.id !== id));
+  }, []);
+
   const handleStartRecording = async () => {
     try {
-      await startRecording();
-      toast({
-        title: "Recording Started",
-        description: "Your meeting is now being recorded.",
-      });
+      setBookmarks([]);
+      if (await startRecording()) {
+        // Device names only become available once microphone access is granted
+        refreshDevices();
+        toast({
+          title: "Recording Started",
+          description: "Your meeting is now being recorded.",
+        });
+      }
     } catch (error) {
       toast({
         title: "Recording Failed",
@@ -61,74 +124,258 @@ export const RecordingControls = () => {
     }
   };
 
+  // Closing without submitting keeps the recording, so it's offered for recovery
   const handleCloseModal = () => {
     setShowSubmissionModal(false);
     setRecordingBlob(null);
+    if (sessionId) releaseRecording(sessionId);
+  };
+
+  const handleDiscardRecording = () => {
+    setShowSubmissionModal(false);
+    setRecordingBlob(null);
+    if (sessionId) {
+      deleteRecording(sessionId).catch((error) => console.warn('Failed to delete stored recording:', error));
+    }
   };
 
-  if (error) {
+  if (state === 'error') {
     return (
       <div className="flex items-center gap-3 p-4 bg-destructive/10 border border-destructive/20 rounded-lg">
         <AlertCircle className="h-5 w-5 text-destructive" />
         <span className="text-sm text-destructive">{error}</span>
+        <Button onClick={handleStartRecording} variant="outline" size="sm" className="ml-auto">
+          Try Again
+        </Button>
       </div>
     );
   }
 
   return (
     <>
-      <div className="flex items-center gap-4 p-6 bg-gradient-to-r from-primary/5 to-secondary/5 rounded-xl border border-primary/10">
-        {/* Recording Status */}
-        <div className="flex items-center gap-3">
-          {isRecording ? (
-            <>
-              <div className="flex items-center gap-2">
-                <div className="w-3 h-3 bg-destructive rounded-full animate-pulse" />
-                <Badge variant="destructive" className="font-medium">
-                  RECORDING
-                </Badge>
-              </div>
-              <div className="text-lg font-mono font-bold text-primary">
-                {formatTime(recordingTime)}
-              </div>
-            </>
-          ) : (
-            <Badge variant="secondary">Ready to Record</Badge>
-          )}
+      <div className="p-6 space-y-4 bg-gradient-to-r from-primary/5 to-secondary/5 rounded-xl border border-primary/10">
+        <div className="flex items-center gap-4">
+          {/* Recording Status */}
+          <div className="flex items-center gap-3">
+            {isRecording ? (
+              <>
+                <div className="flex items-center gap-2">
+                  {isPaused ? (
+                    <>
+                      <div className="w-3 h-3 bg-muted-foreground rounded-full" />
+                      <Badge variant="secondary" className="font-medium">
+                        PAUSED
+                      </Badge>
+                    </>
+                  ) : (
+                    <>
+                      <div className="w-3 h-3 bg-destructive rounded-full animate-pulse" />
+                      <Badge variant="destructive" className="font-medium">
+                        RECORDING
+                      </Badge>
+                    </>
+                  )}
+                </div>
+                <div className="text-lg font-mono font-bold text-primary">
+                  {formatTime(recordingTime)}
+                </div>
+              </>
+            ) : state === 'stopping' ? (
+              <Badge variant="secondary">Finishing recording...</Badge>
+            ) : (
+              <Badge variant="secondary">Ready to Record</Badge>
+            )}
+          </div>
+
+          {/* Recording Controls */}
+          <div className="flex items-center gap-2 ml-auto">
+            {!isRecording ? (
+              <Button
+                onClick={handleStartRecording}
+                variant="hero"
+                size="lg"
+                className="gap-2"
+                disabled={state !== 'idle'}
+              >
+                {state === 'acquiring' || state === 'stopping'
+                  ? <Loader2 className="h-4 w-4 animate-spin" />
+                  : <Mic className="h-4 w-4" />}
+                {state === 'acquiring'
+                  ? source === 'call' ? 'Waiting for sharing...' : 'Waiting for microphone...'
+                  : 'Start Recording'}
+              </Button>
+            ) : (
+              <>
+                <Button
+                  onClick={isPaused ? resumeRecording : pauseRecording}
+                  variant="outline"
+                  size="lg"
+                  className="gap-2"
+                >
+                  {isPaused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+                  {isPaused ? 'Resume' : 'Pause'}
+                </Button>
+                <Button
+                  onClick={handleStopRecording}
+                  variant="destructive"
+                  size="lg"
+                  className="gap-2"
+                >
+                  <Square className="h-4 w-4" />
+                  Stop & Submit
+                </Button>
+              </>
+            )}
+          </div>
         </div>
 
-        {/* Recording Controls */}
-        <div className="flex items-center gap-2 ml-auto">
-          {!isRecording ? (
-            <Button
-              onClick={handleStartRecording}
-              variant="hero"
-              size="lg"
-              className="gap-2"
-            >
+        {/* Recording Source */}
+        <div className="flex flex-wrap items-center gap-3">
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            value={source}
+            // Clicking the active item would otherwise clear the value
+            onValueChange={(value) => value && onSourceChange(value as RecordingSource)}
+            disabled={state !== 'idle'}
+            aria-label="Recording source"
+          >
+            <ToggleGroupItem value="microphone" className="gap-2">
               <Mic className="h-4 w-4" />
-              Start Recording
-            </Button>
-          ) : (
-            <Button
-              onClick={handleStopRecording}
-              variant="destructive"
-              size="lg"
-              className="gap-2"
+              Microphone only
+            </ToggleGroupItem>
+            <ToggleGroupItem value="call" className="gap-2">
+              <MonitorSpeaker className="h-4 w-4" />
+              Call audio + microphone
+            </ToggleGroupItem>
+          </ToggleGroup>
+          {source === 'call' && state === 'idle' && (
+            <p className="text-sm text-muted-foreground">
+              You'll be asked to share the meeting tab. Turn on "Share audio" so remote participants are recorded.
+            </p>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Switch
+            id="live-captions"
+            checked={liveCaptions}
+            onCheckedChange={setLiveCaptions}
+            disabled={state !== 'idle'}
+          />
+          <Label htmlFor="live-captions" className="font-normal">
+            Live captions
+          </Label>
+          <span className="text-sm text-muted-foreground">
+            Transcribes as you record, so the summary is ready right after you submit
+          </span>
+        </div>
+
+        {/* Microphone & Input Level */}
+        <div className="flex flex-wrap items-center gap-3">
+          <Mic className="h-4 w-4 text-muted-foreground" />
+          <MicrophoneSelect
+            devices={devices}
+            selectedDeviceId={selectedDeviceId}
+            onSelect={selectDevice}
+            disabled={state !== 'idle'}
+            className="w-full sm:w-72"
+          />
+          {isRecording && (
+            <div
+              className="flex-1 min-w-24 h-2 rounded-full bg-muted overflow-hidden"
+              role="meter"
+              aria-label="Input level"
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={Math.round(level * 100)}
             >
-              <Square className="h-4 w-4" />
-              Stop & Submit
-            </Button>
+              <div
+                className={cn(
+                  "h-full rounded-full transition-[width] duration-75",
+                  warning === 'clipping' ? "bg-destructive" : level > 0.85 ? "bg-warning" : "bg-success"
+                )}
+                style={{ width: `${level * 100}%` }}
+              />
+            </div>
           )}
         </div>
+
+        {source === 'call' && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span>Microphone volume</span>
+                <span className="text-muted-foreground">{Math.round(micGain * 100)}%</span>
+              </div>
+              <Slider
+                value={[micGain]}
+                max={MAX_GAIN}
+                step={0.05}
+                onValueChange={([value]) => setMicGain(value)}
+                aria-label="Microphone volume"
+              />
+            </div>
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span>Call audio volume</span>
+                <span className="text-muted-foreground">{Math.round(tabGain * 100)}%</span>
+              </div>
+              <Slider
+                value={[tabGain]}
+                max={MAX_GAIN}
+                step={0.05}
+                onValueChange={([value]) => setTabGain(value)}
+                aria-label="Call audio volume"
+              />
+            </div>
+          </div>
+        )}
+
+        {isRecording && tabAudioEnded && (
+          <div className="flex items-center gap-2 text-sm text-warning">
+            <AlertTriangle className="h-4 w-4 shrink-0" />
+            <span>Sharing stopped, so call audio is no longer recorded. Only your microphone is being recorded.</span>
+          </div>
+        )}
+
+        {isSavedDeviceMissing && state === 'idle' && (
+          <p className="text-sm text-muted-foreground">
+            Your chosen microphone isn't connected, so the system default will be used.
+          </p>
+        )}
+
+        {isRecording && !isPaused && warning && (
+          <div className="flex items-center gap-2 text-sm text-warning">
+            <AlertTriangle className="h-4 w-4 shrink-0" />
+            <span>{LEVEL_WARNINGS[warning]}</span>
+          </div>
+        )}
+
+        {isRecording && (
+          <RecordingBookmarks bookmarks={bookmarks} onAdd={addBookmark} onRemove={removeBookmark} />
+        )}
+
+        {(isRecording || state === 'stopping') && (
+          <LiveCaptions
+            status={liveTranscript.status}
+            segments={liveTranscript.segments}
+            partial={liveTranscript.partial}
+          />
+        )}
       </div>
 
       {/* Submission Modal */}
       <RecordingSubmissionModal
         isOpen={showSubmissionModal}
         onClose={handleCloseModal}
+        onDiscard={handleDiscardRecording}
         recordingBlob={recordingBlob}
         recordingDuration={recordingTime}
+        sessionId={sessionId}
+        bookmarks={bookmarks}
+        liveTranscript={liveTranscript.status === 'complete' ? liveTranscript.segments : null}
+        isLiveTranscriptPending={liveTranscript.status === 'finishing'}
       />
     </>
   );
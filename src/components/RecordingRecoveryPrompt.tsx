@@ -0,0 +1,149 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Loader2, RotateCcw, X } from "lucide-react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { apiService } from "@/services/apiService";
+import { RecordingSubmissionModal } from "./RecordingSubmissionModal";
+import {
+  deleteRecording,
+  getInterruptedRecordings,
+  loadRecording,
+  releaseRecording,
+  subscribeToRecordingChanges,
+  type RecordingSession
+} from "@/services/recordingStore";
+
+// Pages where nobody is signed in, so a recovered recording couldn't be submitted
+const PUBLIC_PATHS = ["/login", "/register", "/share/"];
+
+/**
+ * Offers recordings that were interrupted (tab crash, reload, phone sleep)
+ * for submission when the app starts. Only shown to signed-in users, outside
+ * the public pages.
+ */
+export function RecordingRecoveryPrompt() {
+  const location = useLocation();
+  const canSubmit = apiService.isAuthenticated() && !PUBLIC_PATHS.some(path => location.pathname.startsWith(path));
+
+  const [sessions, setSessions] = useState<RecordingSession[]>([]);
+  const [isDismissed, setIsDismissed] = useState(false);
+  const [loadingId, setLoadingId] = useState<string | null>(null);
+  const [recovered, setRecovered] = useState<{ session: RecordingSession; blob: Blob } | null>(null);
+  const { toast } = useToast();
+
+  const refresh = () => {
+    getInterruptedRecordings()
+      .then(setSessions)
+      .catch((error) => console.warn('Could not check for interrupted recordings:', error));
+  };
+
+  // Checked again after signing in
+  useEffect(() => {
+    if (canSubmit) refresh();
+  }, [canSubmit]);
+
+  // A recording closed without submitting becomes recoverable right away
+  useEffect(() => subscribeToRecordingChanges(() => {
+    setIsDismissed(false);
+    getInterruptedRecordings()
+      .then(setSessions)
+      .catch((error) => console.warn('Could not check for interrupted recordings:', error));
+  }), []);
+
+  const handleRecover = async (session: RecordingSession) => {
+    setLoadingId(session.id);
+    try {
+      const blob = await loadRecording(session.id);
+      setRecovered({ session, blob });
+    } catch (error) {
+      toast({
+        title: "Recovery Failed",
+        description: error instanceof Error ? error.message : "This recording couldn't be restored.",
+        variant: "destructive"
+      });
+    } finally {
+      setLoadingId(null);
+    }
+  };
+
+  const handleDiscard = async (session: RecordingSession) => {
+    await deleteRecording(session.id).catch((error) => console.warn('Failed to delete stored recording:', error));
+    setSessions(prev => prev.filter(candidate => candidate.id !== session.id));
+  };
+
+  // Submitted recordings are deleted by the modal; anything else stays recoverable
+  const handleCloseModal = () => {
+    if (recovered) releaseRecording(recovered.session.id);
+    setRecovered(null);
+  };
+
+  const handleDiscardRecovered = () => {
+    if (recovered) handleDiscard(recovered.session);
+    setRecovered(null);
+  };
+
+  const formatDuration = (seconds: number) => {
+    const minutes = Math.floor(seconds / 60);
+    const remainingSeconds = seconds % 60;
+    return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+  };
+
+  if (!canSubmit) return null;
+
+  return (
+    <>
+      {!isDismissed && !recovered && sessions.length > 0 && (
+        <Card className="fixed bottom-4 left-4 right-4 md:right-auto md:w-96 z-50 shadow-lg border-primary/20">
+          <CardContent className="p-4 space-y-3">
+            <div className="flex items-start justify-between">
+              <div>
+                <h3 className="font-semibold text-sm">Unsaved recordings found</h3>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {sessions.length === 1 ? "A recording was" : `${sessions.length} recordings were`} interrupted
+                  before being submitted.
+                </p>
+              </div>
+              <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => setIsDismissed(true)}>
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+
+            {sessions.map(session => (
+              <div key={session.id} className="flex items-center justify-between gap-2 p-2 bg-muted/30 rounded-lg">
+                <div className="min-w-0 text-xs">
+                  <p className="font-medium">{format(new Date(session.startedAt), "PPp")}</p>
+                  <p className="text-muted-foreground">
+                    {formatDuration(session.durationSeconds)} · {(session.size / (1024 * 1024)).toFixed(2)} MB
+                  </p>
+                </div>
+                <div className="flex gap-1">
+                  <Button size="sm" onClick={() => handleRecover(session)} disabled={loadingId !== null}>
+                    {loadingId === session.id
+                      ? <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                      : <RotateCcw className="w-4 h-4 mr-1" />}
+                    Recover
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => handleDiscard(session)}>
+                    Discard
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <RecordingSubmissionModal
+        isOpen={recovered !== null}
+        onClose={handleCloseModal}
+        onDiscard={handleDiscardRecovered}
+        recordingBlob={recovered?.blob ?? null}
+        recordingDuration={recovered?.session.durationSeconds ?? 0}
+        sessionId={recovered?.session.id}
+      />
+    </>
+  );
+}
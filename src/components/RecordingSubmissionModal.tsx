@@ -3,21 +3,42 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } f
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
 import { EmailChipInput } from './EmailChipInput';
+import { CalendarEventPicker } from './CalendarEventPicker';
 import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
-import { CalendarIcon, Loader2 } from 'lucide-react';
+import { CalendarIcon, Loader2, Trash2 } from 'lucide-react';
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
+import { describeRecordingFormat, toRecordingFile } from '@/lib/recordingFormat';
 import { useToast } from '@/hooks/use-toast';
-import { apiService } from '@/services/apiService';
+import { apiService, type MeetingBookmark, type TranscriptSegment } from '@/services/apiService';
+import { deleteRecording } from '@/services/recordingStore';
+import type { CalendarEvent } from '@/services/calendarService';
 import { useNavigate } from 'react-router-dom';
 
 interface RecordingSubmissionModalProps {
   isOpen: boolean;
-  onClose: () => void;
+  onClose: () => void; // keeps the recording; only submitting or discarding removes it
+  onDiscard?: () => void; // deletes the recording, after the user confirms
   recordingBlob: Blob | null;
   recordingDuration: number;
+  sessionId?: string | null; // stored copy of the recording, deleted once submitted
+  bookmarks?: MeetingBookmark[]; // moments flagged while recording
+  liveTranscript?: TranscriptSegment[] | null; // complete transcript captured while recording
+  isLiveTranscriptPending?: boolean; // live transcript still finishing; submitting waits for it
 }
 
 interface SubmissionData {
@@ -31,10 +52,17 @@ interface SubmissionData {
 export const RecordingSubmissionModal = ({
   isOpen,
   onClose,
+  onDiscard,
   recordingBlob,
-  recordingDuration
+  recordingDuration,
+  sessionId,
+  bookmarks = [],
+  liveTranscript,
+  isLiveTranscriptPending = false
 }: RecordingSubmissionModalProps) => {
   const [emails, setEmails] = useState<string[]>([]);
+  const [autoSendSummary, setAutoSendSummary] = useState(true);
+  const [calendarEventId, setCalendarEventId] = useState<string>();
   const [meetingTitle, setMeetingTitle] = useState('');
   const [meetingDate, setMeetingDate] = useState<Date>(new Date());
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -51,6 +79,14 @@ export const RecordingSubmissionModal = ({
     return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
   };
 
+  // Prefill from a calendar event, keeping any participants already entered
+  const applyCalendarEvent = (event: CalendarEvent) => {
+    setCalendarEventId(event.id);
+    setMeetingTitle(event.title);
+    setMeetingDate(event.start);
+    setEmails(prev => Array.from(new Set([...prev, ...event.attendees])));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -71,12 +107,21 @@ export const RecordingSubmissionModal = ({
         title: meetingTitle,
         date: meetingDate.toISOString(),
         participants: emails,
-        recordingBlob: recordingBlob
+        recordingBlob: toRecordingFile(recordingBlob, meetingTitle),
+        recordingId: sessionId ?? undefined,
+        liveTranscript: liveTranscript ?? undefined,
+        bookmarks: bookmarks.map(({ time, note }) => ({ time, note })),
+        autoSendSummary
       };
 
       // Submit to backend for AI processing
       const result = await apiService.processMeeting(meetingData);
       
+      // The server has it now; drop the copy kept for crash recovery
+      if (sessionId) {
+        await deleteRecording(sessionId).catch((error) => console.warn('Failed to delete stored recording:', error));
+      }
+
       toast({
         title: "Meeting Submitted Successfully!",
         description: `Your meeting "${meetingTitle}" is being processed. You'll see it in your dashboard shortly.`,
@@ -86,6 +131,7 @@ export const RecordingSubmissionModal = ({
       setEmails([]);
       setMeetingTitle('');
       setMeetingDate(new Date());
+      setCalendarEventId(undefined);
       onClose();
       
       // Navigate to dashboard to see the processing meeting
@@ -103,10 +149,16 @@ export const RecordingSubmissionModal = ({
     }
   };
 
-  const canSubmit = emails.length > 0 && meetingTitle.trim() && !isSubmitting;
+  // Escape or an outside click mid-upload would release the recording for
+  // recovery while it's still being submitted
+  const handleOpenChange = (open: boolean) => {
+    if (!open && !isSubmitting) onClose();
+  };
+
+  const canSubmit = emails.length > 0 && meetingTitle.trim() && !isSubmitting && !isLiveTranscriptPending;
 
   return (
-    <Dialog open={isOpen} onOpenChange={onClose}>
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
       <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Submit Meeting Recording</DialogTitle>
@@ -122,13 +174,22 @@ export const RecordingSubmissionModal = ({
             <div className="text-sm text-muted-foreground space-y-1">
               <p><strong>Duration:</strong> {formatRecordingDuration(recordingDuration)}</p>
               <p><strong>Size:</strong> {recordingBlob ? `${(recordingBlob.size / (1024 * 1024)).toFixed(2)} MB` : 'N/A'}</p>
-              <p><strong>Format:</strong> Audio (WebM)</p>
+              <p><strong>Format:</strong> {recordingBlob ? describeRecordingFormat(recordingBlob.type).label : 'N/A'}</p>
+              {bookmarks.length > 0 && (
+                <p><strong>Bookmarks:</strong> {bookmarks.length}, shown on the timeline and in the transcript</p>
+              )}
+              {liveTranscript && (
+                <p><strong>Transcript:</strong> Captured live, so the summary will be ready in moments</p>
+              )}
               <p className="text-primary font-medium mt-2">
                 🤖 This recording will be processed using AI to generate transcription, summary, and action items
               </p>
             </div>
           </div>
 
+          {/* Calendar Events */}
+          <CalendarEventPicker onSelect={applyCalendarEvent} selectedEventId={calendarEventId} />
+
           {/* Email Participants */}
           <EmailChipInput
             emails={emails}
@@ -138,6 +199,17 @@ export const RecordingSubmissionModal = ({
             required
           />
 
+          <div className="flex items-center justify-between">
+            <Label htmlFor="autoSendSummary" className="font-normal">
+              Email the summary to participants when it's ready
+            </Label>
+            <Switch
+              id="autoSendSummary"
+              checked={autoSendSummary}
+              onCheckedChange={setAutoSendSummary}
+            />
+          </div>
+
           {/* Meeting Title */}
           <div className="space-y-2">
             <Label htmlFor="meetingTitle">
@@ -185,6 +257,33 @@ export const RecordingSubmissionModal = ({
 
           {/* Submit Button */}
           <div className="flex justify-end space-x-3 pt-4 border-t">
+            {onDiscard && (
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button type="button" variant="ghost" className="mr-auto text-destructive" disabled={isSubmitting}>
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Discard
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Discard this recording?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      The recording will be deleted from this device and can't be recovered.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Keep Recording</AlertDialogCancel>
+                    <AlertDialogAction
+                      onClick={onDiscard}
+                      className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                    >
+                      Discard
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            )}
             <Button
               type="button"
               variant="outline"
@@ -203,6 +302,11 @@ export const RecordingSubmissionModal = ({
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                   Submitting for AI Analysis...
                 </>
+              ) : isLiveTranscriptPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Finishing live transcript...
+                </>
               ) : (
                 'Submit for AI Processing'
               )}
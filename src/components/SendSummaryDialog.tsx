@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Eye, EyeOff, Loader2, Send } from "lucide-react";
+import { participantName } from "@/lib/meetingFormat";
+import { useDebounce } from "@/hooks/useDebounce";
+import {
+  DEFAULT_SUMMARY_EMAIL_SETTINGS,
+  useSummaryEmailMutations,
+  useSummaryEmailPreview
+} from "@/hooks/useSummaryEmail";
+import type { Meeting } from "@/services/apiService";
+
+interface SendSummaryDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  meeting: Meeting;
+}
+
+export function SendSummaryDialog({ isOpen, onClose, meeting }: SendSummaryDialogProps) {
+  const { updateSettings, sendSummary } = useSummaryEmailMutations(meeting.id);
+  const [message, setMessage] = useState("");
+  const [showPreview, setShowPreview] = useState(false);
+  const settings = { ...DEFAULT_SUMMARY_EMAIL_SETTINGS, ...meeting.summaryEmail };
+  const recipients = meeting.participants.filter(email => !settings.excludedRecipients.includes(email));
+
+  const debouncedMessage = useDebounce(message.trim(), 500);
+
+  const previewOptions = {
+    includeHighlights: settings.includeHighlights,
+    includeActionItems: settings.includeActionItems,
+    message: debouncedMessage || undefined
+  };
+  const { data: preview, isLoading: isPreviewLoading, isError: isPreviewError } =
+    useSummaryEmailPreview(meeting.id, previewOptions, isOpen && showPreview);
+
+  // Opting out is saved with the meeting, so automatic sends respect it too
+  const toggleRecipient = (email: string, included: boolean) => {
+    updateSettings.mutate({
+      excludedRecipients: included
+        ? settings.excludedRecipients.filter(excluded => excluded !== email)
+        : [...settings.excludedRecipients, email]
+    });
+  };
+
+  const handleSend = () => {
+    sendSummary.mutate(
+      {
+        recipients,
+        includeHighlights: settings.includeHighlights,
+        includeActionItems: settings.includeActionItems,
+        message: message.trim() || undefined
+      },
+      {
+        onSuccess: () => {
+          setMessage("");
+          onClose();
+        }
+      }
+    );
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Send Summary</DialogTitle>
+          <DialogDescription>
+            Email the summary of "{meeting.title}" to its participants.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {/* Recipients */}
+          <div className="space-y-3">
+            <Label>Recipients</Label>
+            {meeting.participants.map(email => (
+              <div key={email} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`recipient-${email}`}
+                  checked={!settings.excludedRecipients.includes(email)}
+                  onCheckedChange={(checked) => toggleRecipient(email, checked === true)}
+                />
+                <Label htmlFor={`recipient-${email}`} className="font-normal">
+                  {participantName(email)} <span className="text-muted-foreground">({email})</span>
+                </Label>
+              </div>
+            ))}
+          </div>
+
+          {/* Content */}
+          <div className="space-y-3">
+            <Label>Content</Label>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="include-highlights" className="font-normal">Key highlights</Label>
+              <Switch
+                id="include-highlights"
+                checked={settings.includeHighlights}
+                onCheckedChange={(checked) => updateSettings.mutate({ includeHighlights: checked })}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="include-action-items" className="font-normal">Action items</Label>
+              <Switch
+                id="include-action-items"
+                checked={settings.includeActionItems}
+                onCheckedChange={(checked) => updateSettings.mutate({ includeActionItems: checked })}
+              />
+            </div>
+            <Textarea
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              placeholder="Add a personal note (optional)"
+              rows={3}
+            />
+          </div>
+
+          {/* Preview */}
+          {showPreview && (
+            <div className="space-y-2">
+              {isPreviewLoading ? (
+                <Skeleton className="h-80 rounded-lg" />
+              ) : isPreviewError || !preview ? (
+                <p className="text-sm text-destructive">Failed to render the preview.</p>
+              ) : (
+                <>
+                  <p className="text-sm">
+                    <span className="text-muted-foreground">Subject:</span> {preview.subject}
+                  </p>
+                  {/* Sandboxed so the email's markup can't run scripts in the app */}
+                  <iframe
+                    title="Summary email preview"
+                    srcDoc={preview.html}
+                    sandbox=""
+                    className="w-full h-80 rounded-lg border bg-white"
+                  />
+                </>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-between">
+            <Button variant="ghost" onClick={() => setShowPreview(!showPreview)}>
+              {showPreview ? <EyeOff className="w-4 h-4 mr-2" /> : <Eye className="w-4 h-4 mr-2" />}
+              {showPreview ? "Hide Preview" : "Preview"}
+            </Button>
+            <Button onClick={handleSend} disabled={recipients.length === 0 || sendSummary.isPending}>
+              {sendSummary.isPending ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Send className="w-4 h-4 mr-2" />
+              )}
+              Send to {recipients.length} {recipients.length === 1 ? "person" : "people"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
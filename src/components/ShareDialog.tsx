@@ -0,0 +1,242 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { AlertCircle, Copy, Link2, Loader2, Trash2 } from "lucide-react";
+import { addDays, format, formatDistanceToNow } from "date-fns";
+import { participantName } from "@/lib/meetingFormat";
+import { useToast } from "@/hooks/use-toast";
+import { useMeetingSharing, useSharingMutations } from "@/hooks/useSharing";
+import type { MeetingRole } from "@/services/apiService";
+
+interface ShareDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  meetingId: string;
+  canManage: boolean; // only owners can change who has access
+}
+
+const ROLE_LABELS: Record<MeetingRole, string> = {
+  viewer: "Viewer",
+  editor: "Editor",
+  owner: "Owner",
+};
+
+const LINK_EXPIRY_OPTIONS = [
+  { value: "never", label: "Never expires", days: null },
+  { value: "1", label: "Expires in 1 day", days: 1 },
+  { value: "7", label: "Expires in 7 days", days: 7 },
+  { value: "30", label: "Expires in 30 days", days: 30 },
+];
+
+const isValidEmail = (email: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+
+export function ShareDialog({ isOpen, onClose, meetingId, canManage }: ShareDialogProps) {
+  const { data: sharing, isLoading, isError, refetch } = useMeetingSharing(meetingId, isOpen);
+  const { addCollaborator, updateCollaborator, removeCollaborator, createLink, revokeLink } =
+    useSharingMutations(meetingId);
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<MeetingRole>("viewer");
+  const [linkExpiry, setLinkExpiry] = useState("7");
+  const { toast } = useToast();
+
+  const collaborators = sharing?.collaborators ?? [];
+  const links = sharing?.links ?? [];
+  const trimmedEmail = email.trim().toLowerCase();
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValidEmail(trimmedEmail)) return;
+    addCollaborator.mutate({ email: trimmedEmail, role }, { onSuccess: () => setEmail("") });
+  };
+
+  const handleCreateLink = () => {
+    const days = LINK_EXPIRY_OPTIONS.find(option => option.value === linkExpiry)?.days ?? null;
+    createLink.mutate(days === null ? null : addDays(new Date(), days).toISOString());
+  };
+
+  const copyLink = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: "Link copied", description: "Anyone with this link can view the summary and transcript." });
+    } catch {
+      toast({ title: "Copy Failed", description: "Clipboard access was denied.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share Meeting</DialogTitle>
+          <DialogDescription>
+            Viewers can read, editors can also correct the transcript and action items.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            {Array.from({ length: 3 }).map((_, index) => (
+              <Skeleton key={index} className="h-12 rounded-lg" />
+            ))}
+          </div>
+        ) : isError ? (
+          <div className="text-center py-6">
+            <AlertCircle className="w-8 h-8 text-destructive mx-auto mb-2" />
+            <p className="text-sm text-muted-foreground mb-4">Failed to load sharing settings.</p>
+            <Button variant="outline" size="sm" onClick={() => refetch()}>
+              Try Again
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {/* Invite */}
+            {canManage && (
+              <form onSubmit={handleInvite} className="flex space-x-2">
+                <Input
+                  type="email"
+                  placeholder="Add people by email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  className="flex-1"
+                />
+                <Select value={role} onValueChange={(value) => setRole(value as MeetingRole)}>
+                  <SelectTrigger className="w-28">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="viewer">Viewer</SelectItem>
+                    <SelectItem value="editor">Editor</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button type="submit" disabled={!isValidEmail(trimmedEmail) || addCollaborator.isPending}>
+                  {addCollaborator.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : "Share"}
+                </Button>
+              </form>
+            )}
+
+            {/* People with access */}
+            <div className="space-y-3">
+              <Label>People with access</Label>
+              {collaborators.map(collaborator => (
+                <div key={collaborator.email} className="flex items-center space-x-3">
+                  <div className="w-8 h-8 bg-primary/10 rounded-full flex items-center justify-center flex-shrink-0">
+                    <span className="text-xs font-semibold text-primary">
+                      {participantName(collaborator.email).split(' ').map(n => n[0]).join('')}
+                    </span>
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{participantName(collaborator.email)}</p>
+                    <p className="text-xs text-muted-foreground truncate">{collaborator.email}</p>
+                  </div>
+                  {canManage && collaborator.role !== "owner" ? (
+                    <>
+                      <Select
+                        value={collaborator.role}
+                        onValueChange={(value) =>
+                          updateCollaborator.mutate({ email: collaborator.email, role: value as MeetingRole })
+                        }
+                      >
+                        <SelectTrigger className="w-28 h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="viewer">Viewer</SelectItem>
+                          <SelectItem value="editor">Editor</SelectItem>
+                          <SelectItem value="owner">Owner</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => removeCollaborator.mutate(collaborator.email)}
+                        aria-label={`Remove ${collaborator.email}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </>
+                  ) : (
+                    <span className="text-sm text-muted-foreground">{ROLE_LABELS[collaborator.role]}</span>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <Separator />
+
+            {/* Read-only links */}
+            <div className="space-y-3">
+              <Label>Read-only links</Label>
+              <p className="text-xs text-muted-foreground">
+                Anyone with a link can view the summary and transcript without signing in.
+              </p>
+              {links.map(link => (
+                <div key={link.id} className="flex items-center space-x-2 p-2 bg-muted/30 rounded-lg">
+                  <Link2 className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm truncate">{link.url}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Created {formatDistanceToNow(new Date(link.createdAt), { addSuffix: true })}
+                      {" · "}
+                      {link.expiresAt ? `Expires ${format(new Date(link.expiresAt), "PPP")}` : "Never expires"}
+                    </p>
+                  </div>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => copyLink(link.url)} title="Copy link">
+                    <Copy className="w-4 h-4" />
+                  </Button>
+                  {canManage && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => revokeLink.mutate(link.id)}
+                      title="Revoke link"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+              {canManage && (
+                <div className="flex space-x-2">
+                  <Select value={linkExpiry} onValueChange={setLinkExpiry}>
+                    <SelectTrigger className="flex-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {LINK_EXPIRY_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="outline" onClick={handleCreateLink} disabled={createLink.isPending}>
+                    {createLink.isPending ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <Link2 className="w-4 h-4 mr-2" />
+                    )}
+                    Create Link
+                  </Button>
+                </div>
+              )}
+              {!canManage && links.length === 0 && (
+                <p className="text-sm text-muted-foreground">No links have been created.</p>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
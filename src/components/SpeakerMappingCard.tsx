@@ -0,0 +1,133 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AudioLines, Sparkles } from "lucide-react";
+import { participantName } from "@/lib/meetingFormat";
+import { computeSpeakerStats, formatTalkTime } from "@/lib/speakerStats";
+import { useSpeakerMutations, useVoiceProfiles } from "@/hooks/useSpeakers";
+import type { Meeting } from "@/services/apiService";
+
+// Select items can't have an empty value
+const UNASSIGNED = "unassigned";
+
+interface SpeakerMappingCardProps {
+  meeting: Meeting;
+  canEdit: boolean;
+}
+
+export function SpeakerMappingCard({ meeting, canEdit }: SpeakerMappingCardProps) {
+  const { assignSpeaker, enrollVoice, deleteVoiceProfile } = useSpeakerMutations(meeting.id);
+  const { data: voiceProfiles = [] } = useVoiceProfiles(canEdit);
+  const stats = computeSpeakerStats(meeting.transcript ?? [], meeting.duration);
+
+  if (stats.length === 0) return null;
+
+  const enrolledEmails = new Set(voiceProfiles.map(profile => profile.email));
+  const speakerFor = (label: string) => meeting.speakers?.find(speaker => speaker.label === label);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Speakers</CardTitle>
+        <CardDescription>
+          Match each voice in the transcript to a participant. Talk time and words are counted from the transcript.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {stats.map(({ label, speaker: name, talkTime, wordCount, share }) => {
+          const speaker = speakerFor(label);
+          const email = speaker?.email;
+          const isEnrolled = !!email && enrolledEmails.has(email);
+
+          return (
+            <div key={label} className="space-y-2 p-3 bg-muted/30 rounded-lg">
+              <div className="flex flex-wrap items-center gap-3">
+                <div className="min-w-0 flex-1">
+                  <p className="font-medium flex items-center gap-2">
+                    {name}
+                    {name !== label && <span className="text-sm font-normal text-muted-foreground">{label}</span>}
+                    {speaker?.recognized && (
+                      <Badge variant="secondary" className="gap-1 font-normal">
+                        <Sparkles className="w-3 h-3" />
+                        Recognized
+                      </Badge>
+                    )}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {formatTalkTime(talkTime)} talk time · {wordCount.toLocaleString()} words
+                  </p>
+                </div>
+                <Select
+                  value={email ?? UNASSIGNED}
+                  onValueChange={(value) =>
+                    assignSpeaker.mutate({ label, email: value === UNASSIGNED ? null : value })
+                  }
+                  disabled={!canEdit || meeting.participants.length === 0}
+                >
+                  <SelectTrigger className="w-full sm:w-56" aria-label={`Participant for ${name}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNASSIGNED}>Not assigned</SelectItem>
+                    {meeting.participants.map(participant => (
+                      <SelectItem key={participant} value={participant}>
+                        {participantName(participant)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex items-center gap-3">
+                <Progress value={share * 100} className="h-2 flex-1" aria-label={`${name} share of talk time`} />
+                <span className="text-xs text-muted-foreground w-10 text-right">{Math.round(share * 100)}%</span>
+              </div>
+
+              {canEdit && email && (
+                <div className="flex items-center gap-2 text-sm">
+                  <AudioLines className="w-4 h-4 text-muted-foreground" />
+                  {isEnrolled ? (
+                    <>
+                      <span className="text-muted-foreground">Recognized automatically in future meetings</span>
+                      <Button
+                        variant="link"
+                        size="sm"
+                        className="h-auto p-0 ml-auto"
+                        onClick={() => deleteVoiceProfile.mutate(email)}
+                        disabled={deleteVoiceProfile.isPending}
+                      >
+                        Forget voice
+                      </Button>
+                    </>
+                  ) : (
+                    <>
+                      <span className="text-muted-foreground">Not enrolled</span>
+                      <Button
+                        variant="link"
+                        size="sm"
+                        className="h-auto p-0 ml-auto"
+                        onClick={() => enrollVoice.mutate({ label, email })}
+                        disabled={enrollVoice.isPending}
+                      >
+                        Remember this voice
+                      </Button>
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        {canEdit && (
+          <p className="text-xs text-muted-foreground">
+            Only remember the voices of colleagues who have agreed to it. A voice is sampled from this meeting's
+            recording and can be forgotten at any time.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
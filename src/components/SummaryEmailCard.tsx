@@ -0,0 +1,99 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Send } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { cn } from "@/lib/utils";
+import { participantName } from "@/lib/meetingFormat";
+import { SendSummaryDialog } from "@/components/SendSummaryDialog";
+import {
+  DEFAULT_SUMMARY_EMAIL_SETTINGS,
+  useEmailDeliveries,
+  useSummaryEmailMutations
+} from "@/hooks/useSummaryEmail";
+import type { EmailDelivery, Meeting } from "@/services/apiService";
+
+interface SummaryEmailCardProps {
+  meeting: Meeting;
+  canSend: boolean;
+}
+
+const DELIVERY_STATUS_STYLES: Record<EmailDelivery["status"], { label: string; className: string }> = {
+  queued: { label: "Queued", className: "bg-muted text-muted-foreground" },
+  sent: { label: "Sent", className: "bg-primary/10 text-primary" },
+  opened: { label: "Opened", className: "bg-success text-success-foreground" },
+  bounced: { label: "Bounced", className: "bg-destructive text-destructive-foreground" },
+};
+
+export function SummaryEmailCard({ meeting, canSend }: SummaryEmailCardProps) {
+  const [isSendOpen, setIsSendOpen] = useState(false);
+  const { data: deliveries = [], isLoading } = useEmailDeliveries(meeting.id);
+  const { updateSettings } = useSummaryEmailMutations(meeting.id);
+  const settings = { ...DEFAULT_SUMMARY_EMAIL_SETTINGS, ...meeting.summaryEmail };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Summary Email</CardTitle>
+        {canSend && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setIsSendOpen(true)}
+            disabled={meeting.status !== "completed"}
+          >
+            <Send className="w-4 h-4 mr-2" />
+            Send Summary
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label htmlFor="auto-send-summary">Send automatically</Label>
+            <p className="text-sm text-muted-foreground">
+              Email participants as soon as processing completes
+            </p>
+          </div>
+          <Switch
+            id="auto-send-summary"
+            checked={settings.autoSend}
+            onCheckedChange={(checked) => updateSettings.mutate({ autoSend: checked })}
+            disabled={!canSend}
+          />
+        </div>
+
+        <div className="space-y-3">
+          <Label>Delivery Log</Label>
+          {isLoading ? (
+            <Skeleton className="h-12 rounded-lg" />
+          ) : deliveries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">The summary hasn't been emailed yet.</p>
+          ) : (
+            deliveries.map(delivery => (
+              <div key={delivery.id} className="flex items-center justify-between p-3 bg-muted/30 rounded-lg">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{participantName(delivery.recipient)}</p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {delivery.status === "bounced" && delivery.bounceReason
+                      ? delivery.bounceReason
+                      : `Updated ${formatDistanceToNow(new Date(delivery.updatedAt), { addSuffix: true })}`}
+                  </p>
+                </div>
+                <Badge className={cn("flex-shrink-0", DELIVERY_STATUS_STYLES[delivery.status].className)}>
+                  {DELIVERY_STATUS_STYLES[delivery.status].label}
+                </Badge>
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+
+      <SendSummaryDialog isOpen={isSendOpen} onClose={() => setIsSendOpen(false)} meeting={meeting} />
+    </Card>
+  );
+}
@@ -0,0 +1,88 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { AlertCircle, Loader2, Undo2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { participantName } from "@/lib/meetingFormat";
+import { describeTranscriptEdit } from "@/lib/transcriptEdits";
+import { useTranscriptEditing, useTranscriptRevisions } from "@/hooks/useTranscriptEditing";
+import type { TranscriptSegment } from "@/services/apiService";
+
+interface TranscriptHistoryDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  meetingId: string;
+  transcript: TranscriptSegment[];
+  canRevert: boolean;
+}
+
+export function TranscriptHistoryDialog({ isOpen, onClose, meetingId, transcript, canRevert }: TranscriptHistoryDialogProps) {
+  const { data: revisions = [], isLoading, isError, refetch } = useTranscriptRevisions(meetingId, isOpen);
+  const { revertTranscript } = useTranscriptEditing(meetingId);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Transcript History</DialogTitle>
+          <DialogDescription>
+            Reverting a change also undoes every change made after it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            {Array.from({ length: 3 }).map((_, index) => (
+              <Skeleton key={index} className="h-14 rounded-lg" />
+            ))}
+          </div>
+        ) : isError ? (
+          <div className="text-center py-6">
+            <AlertCircle className="w-8 h-8 text-destructive mx-auto mb-2" />
+            <p className="text-sm text-muted-foreground mb-4">Failed to load the history.</p>
+            <Button variant="outline" size="sm" onClick={() => refetch()}>
+              Try Again
+            </Button>
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">
+            No edits yet. Corrections you make to the transcript will be listed here.
+          </p>
+        ) : (
+          <ScrollArea className="max-h-96 pr-3">
+            <div className="space-y-3">
+              {revisions.map(revision => (
+                <div key={revision.id} className="flex items-start justify-between p-3 bg-muted/30 rounded-lg">
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium">
+                      {revision.revertedRevisionId ? "Reverted an earlier change" : describeTranscriptEdit(revision.edit, transcript)}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {participantName(revision.author)} · {formatDistanceToNow(new Date(revision.createdAt), { addSuffix: true })}
+                    </p>
+                  </div>
+                  {canRevert && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => revertTranscript.mutate(revision.id)}
+                      disabled={revertTranscript.isPending}
+                    >
+                      {revertTranscript.isPending && revertTranscript.variables === revision.id ? (
+                        <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                      ) : (
+                        <Undo2 className="w-4 h-4 mr-1" />
+                      )}
+                      Revert
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
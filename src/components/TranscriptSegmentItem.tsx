@@ -0,0 +1,185 @@
+import { forwardRef, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Separator } from "@/components/ui/separator";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Merge, Pencil, Scissors } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { estimateSplitTime } from "@/lib/transcriptEdits";
+import type { TranscriptEdit, TranscriptSegment } from "@/services/apiService";
+
+interface TranscriptSegmentItemProps {
+  segment: TranscriptSegment;
+  nextSegment?: TranscriptSegment;
+  isActive: boolean;
+  isFocused: boolean;
+  editable: boolean;
+  onSeek: (seconds: number) => void;
+  onEdit: (edit: TranscriptEdit) => void;
+}
+
+export const TranscriptSegmentItem = forwardRef<HTMLDivElement, TranscriptSegmentItemProps>(
+  ({ segment, nextSegment, isActive, isFocused, editable, onSeek, onEdit }, ref) => {
+    const [isEditing, setIsEditing] = useState(false);
+    const [draft, setDraft] = useState(segment.text);
+    const [speakerName, setSpeakerName] = useState(segment.speaker);
+    const [isRenameOpen, setIsRenameOpen] = useState(false);
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+    const startEditing = () => {
+      setDraft(segment.text);
+      setIsEditing(true);
+    };
+
+    const saveText = () => {
+      const text = draft.trim();
+      if (text && text !== segment.text) {
+        onEdit({ type: "update_text", segmentId: segment.id, text });
+      }
+      setIsEditing(false);
+    };
+
+    // Split where the cursor is; unsaved text changes must be saved first
+    const splitAtCursor = () => {
+      const offset = textareaRef.current?.selectionStart ?? 0;
+      if (offset <= 0 || offset >= segment.text.length) return;
+      onEdit({
+        type: "split",
+        segmentId: segment.id,
+        offset,
+        splitTime: estimateSplitTime(segment, nextSegment, offset)
+      });
+      setIsEditing(false);
+    };
+
+    const renameSpeaker = (e: React.FormEvent) => {
+      e.preventDefault();
+      const name = speakerName.trim();
+      if (name && name !== segment.speaker) {
+        onEdit({ type: "rename_speaker", from: segment.speaker, to: name });
+      }
+      setIsRenameOpen(false);
+    };
+
+    return (
+      <div
+        ref={ref}
+        className={cn(
+          "group space-y-2 rounded-lg p-2 -mx-2 transition-colors duration-500",
+          isActive && "bg-primary/5",
+          isFocused && "bg-primary/10 ring-2 ring-primary/30"
+        )}
+      >
+        <div className="flex items-center space-x-2">
+          <button
+            type="button"
+            onClick={() => onSeek(segment.startTime)}
+            className="text-xs text-muted-foreground bg-muted px-2 py-1 rounded hover:bg-primary/10 hover:text-primary transition-colors"
+            title="Play from here"
+          >
+            {segment.timestamp}
+          </button>
+
+          {editable ? (
+            <Popover
+              open={isRenameOpen}
+              onOpenChange={(open) => {
+                setSpeakerName(segment.speaker);
+                setIsRenameOpen(open);
+              }}
+            >
+              <PopoverTrigger asChild>
+                <button
+                  type="button"
+                  className="text-sm font-semibold text-primary hover:underline"
+                  title="Rename speaker"
+                >
+                  {segment.speaker}
+                </button>
+              </PopoverTrigger>
+              <PopoverContent className="w-72" align="start">
+                <form onSubmit={renameSpeaker} className="space-y-3">
+                  <p className="text-sm text-muted-foreground">
+                    Rename "{segment.speaker}" in every segment
+                  </p>
+                  <Input value={speakerName} onChange={(e) => setSpeakerName(e.target.value)} autoFocus />
+                  <Button type="submit" size="sm" className="w-full" disabled={!speakerName.trim()}>
+                    Rename Everywhere
+                  </Button>
+                </form>
+              </PopoverContent>
+            </Popover>
+          ) : (
+            <span className="text-sm font-semibold text-primary">{segment.speaker}</span>
+          )}
+
+          {editable && !isEditing && (
+            <div className="ml-auto flex opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+              <Button variant="ghost" size="icon" className="h-7 w-7" onClick={startEditing} title="Edit text">
+                <Pencil className="w-3.5 h-3.5" />
+              </Button>
+              {nextSegment && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => onEdit({ type: "merge", segmentId: segment.id, nextSegmentId: nextSegment.id })}
+                  title="Merge with next segment"
+                >
+                  <Merge className="w-3.5 h-3.5" />
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+
+        {isEditing ? (
+          <div className="space-y-2 pl-4">
+            <Textarea
+              ref={textareaRef}
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Escape") setIsEditing(false);
+                if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) saveText();
+              }}
+              className="text-sm leading-relaxed"
+              autoFocus
+            />
+            <div className="flex items-center justify-between">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={splitAtCursor}
+                disabled={draft !== segment.text}
+                title={draft !== segment.text ? "Save your changes before splitting" : "Split at the cursor"}
+              >
+                <Scissors className="w-4 h-4 mr-1" />
+                Split at Cursor
+              </Button>
+              <div className="flex space-x-2">
+                <Button variant="outline" size="sm" onClick={() => setIsEditing(false)}>
+                  Cancel
+                </Button>
+                <Button size="sm" onClick={saveText} disabled={!draft.trim()}>
+                  Save
+                </Button>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <p className={cn(
+            "text-sm leading-relaxed pl-4 border-l-2",
+            isActive ? "border-primary" : "border-muted"
+          )}>
+            {segment.text}
+          </p>
+        )}
+        {nextSegment && <Separator />}
+      </div>
+    );
+  }
+);
+
+TranscriptSegmentItem.displayName = "TranscriptSegmentItem";
@@ -0,0 +1,273 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import {
+  AlertCircle,
+  CalendarIcon,
+  CheckCircle,
+  ChevronDown,
+  File,
+  FileAudio,
+  FileVideo,
+  Loader2,
+  RotateCcw,
+  X
+} from "lucide-react";
+import { format } from "date-fns";
+import { cn } from "@/lib/utils";
+import { formatDuration } from "@/lib/meetingFormat";
+import { EmailChipInput } from "@/components/EmailChipInput";
+import { CalendarEventPicker } from "@/components/CalendarEventPicker";
+import type { ProcessingStage } from "@/services/apiService";
+import type { CalendarEvent } from "@/services/calendarService";
+import type {
+  UploadQueueItem as QueueItem,
+  UploadQueueItemDetails,
+  UploadQueueStatus
+} from "@/hooks/useUploadQueue";
+
+interface UploadQueueItemProps {
+  item: QueueItem;
+  onChange: (details: Partial<UploadQueueItemDetails>) => void;
+  onRemove: () => void;
+  onCancel: () => void;
+  onRetry: () => void;
+}
+
+const STATUS_LABELS: Record<UploadQueueStatus, string> = {
+  pending: "Ready",
+  queued: "Queued",
+  preparing: "Checking",
+  uploading: "Uploading",
+  processing: "Processing",
+  completed: "Done",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+const CHANNEL_LABELS: Record<number, string> = { 1: "mono", 2: "stereo" };
+
+// Backend pipeline steps, in order
+const PROCESSING_STEPS: Array<{ stage: ProcessingStage; label: string }> = [
+  { stage: "transcribing", label: "Transcribing audio..." },
+  { stage: "summarizing", label: "Generating summary..." },
+  { stage: "extracting_action_items", label: "Extracting action items..." },
+];
+
+const formatFileSize = (bytes: number) => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+const getFileIcon = (file: File) => {
+  if (file.type.startsWith('audio/')) {
+    return <FileAudio className="w-6 h-6 text-primary" />;
+  } else if (file.type.startsWith('video/')) {
+    return <FileVideo className="w-6 h-6 text-primary" />;
+  }
+  return <File className="w-6 h-6 text-primary" />;
+};
+
+/**
+ * One recording in the upload queue: its editable meeting details while
+ * pending, then upload progress and processing status.
+ */
+export function UploadQueueItem({ item, onChange, onRemove, onCancel, onRetry }: UploadQueueItemProps) {
+  const [showDetails, setShowDetails] = useState(false);
+  const isEditable = item.status === "pending";
+  const stepIndex = PROCESSING_STEPS.findIndex(step => step.stage === item.processingStage);
+
+  // Prefill from a calendar event, keeping any participants already entered
+  const applyCalendarEvent = (event: CalendarEvent) => {
+    onChange({
+      calendarEventId: event.id,
+      title: event.title,
+      date: event.start,
+      participants: Array.from(new Set([...item.participants, ...event.attendees])),
+    });
+  };
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3">
+      <div className="flex items-center space-x-3">
+        {getFileIcon(item.file)}
+        <div className="flex-1 min-w-0">
+          <p className="font-medium truncate">{item.file.name}</p>
+          <p className="text-xs text-muted-foreground">{formatFileSize(item.file.size)}</p>
+        </div>
+        <Badge
+          variant={item.status === "failed" ? "destructive" : item.status === "completed" ? "default" : "secondary"}
+        >
+          {STATUS_LABELS[item.status]}
+        </Badge>
+
+        {(item.status === "queued" || item.status === "preparing" || item.status === "uploading") && (
+          <Button variant="ghost" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        {(item.status === "cancelled" || (item.status === "failed" && !item.rejected)) && (
+          <Button variant="ghost" size="sm" onClick={onRetry}>
+            <RotateCcw className="w-4 h-4 mr-1" />
+            Retry
+          </Button>
+        )}
+        {!["preparing", "uploading", "processing"].includes(item.status) && (
+          <Button variant="ghost" size="icon" onClick={onRemove} aria-label={`Remove ${item.file.name}`}>
+            <X className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+
+      {isEditable ? (
+        <div className="space-y-3">
+          <div className="grid gap-3 sm:grid-cols-[1fr_auto]">
+            <div className="space-y-1">
+              <Label htmlFor={`title-${item.id}`} className="sr-only">Meeting Title</Label>
+              <Input
+                id={`title-${item.id}`}
+                value={item.title}
+                onChange={(e) => onChange({ title: e.target.value })}
+                placeholder="Meeting title *"
+                className={cn(!item.title.trim() && "border-destructive")}
+              />
+            </div>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button
+                  variant="outline"
+                  className={cn("justify-start text-left font-normal", !item.date && "text-muted-foreground")}
+                >
+                  <CalendarIcon className="mr-2 h-4 w-4" />
+                  {item.date ? format(item.date, "PPP") : "Meeting date"}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="end">
+                <Calendar
+                  mode="single"
+                  selected={item.date}
+                  onSelect={(date) => onChange({ date })}
+                  disabled={(date) =>
+                    date > new Date() || date < new Date("1900-01-01")
+                  }
+                  initialFocus
+                  className="p-3 pointer-events-auto"
+                />
+              </PopoverContent>
+            </Popover>
+          </div>
+
+          <Collapsible open={showDetails} onOpenChange={setShowDetails}>
+            <CollapsibleTrigger asChild>
+              <Button variant="ghost" size="sm" className="px-2 text-muted-foreground">
+                <ChevronDown className={cn("w-4 h-4 mr-1 transition-transform", showDetails && "rotate-180")} />
+                {item.participants.length > 0
+                  ? `${item.participants.length} participant${item.participants.length === 1 ? "" : "s"}`
+                  : "Participants & calendar"}
+              </Button>
+            </CollapsibleTrigger>
+            <CollapsibleContent className="space-y-4 pt-2">
+              <CalendarEventPicker onSelect={applyCalendarEvent} selectedEventId={item.calendarEventId} />
+
+              <EmailChipInput
+                emails={item.participants}
+                onChange={(participants) => onChange({ participants })}
+                label="Meeting Participants (Optional)"
+                placeholder="Add participant emails..."
+                required={false}
+              />
+
+              {item.participants.length > 0 && (
+                <div className="flex items-center justify-between">
+                  <Label htmlFor={`auto-send-${item.id}`} className="font-normal">
+                    Email the summary to participants when it's ready
+                  </Label>
+                  <Switch
+                    id={`auto-send-${item.id}`}
+                    checked={item.autoSendSummary}
+                    onCheckedChange={(autoSendSummary) => onChange({ autoSendSummary })}
+                  />
+                </div>
+              )}
+            </CollapsibleContent>
+          </Collapsible>
+        </div>
+      ) : (
+        <p className="text-sm font-medium truncate">{item.title}</p>
+      )}
+
+      {item.prepared?.probe && (
+        <p className="text-xs text-muted-foreground">
+          {[
+            item.prepared.probe.durationSeconds !== undefined && formatDuration(item.prepared.probe.durationSeconds),
+            item.prepared.probe.audioCodec,
+            CHANNEL_LABELS[item.prepared.probe.channels] ?? `${item.prepared.probe.channels} channels`,
+            item.prepared.audioExtracted &&
+              `audio extracted (${formatFileSize(item.file.size)} → ${formatFileSize(item.prepared.file.size)})`,
+          ].filter(Boolean).join(" · ")}
+        </p>
+      )}
+
+      {item.status === "preparing" && (
+        <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+          <Loader2 className="w-4 h-4 animate-spin text-primary" />
+          <span>
+            {item.progress > 0 ? `Extracting audio... ${item.progress}%` : "Checking recording..."}
+          </span>
+        </div>
+      )}
+
+      {item.status === "uploading" && (
+        <div className="space-y-1">
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span>Uploading...</span>
+            <span>{item.progress}%</span>
+          </div>
+          <Progress value={item.progress} className="w-full" />
+        </div>
+      )}
+
+      {item.status === "processing" && (
+        <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+          <Loader2 className="w-4 h-4 animate-spin text-primary" />
+          <span>
+            {stepIndex === -1
+              ? "Upload complete, waiting to be processed..."
+              : `${PROCESSING_STEPS[stepIndex].label} (step ${stepIndex + 1} of ${PROCESSING_STEPS.length})`}
+          </span>
+        </div>
+      )}
+
+      {item.status === "completed" && (
+        <div className="flex items-center space-x-2 text-sm">
+          <CheckCircle className="w-4 h-4 text-success" />
+          {item.meetingId ? (
+            <Link to={`/meeting/${item.meetingId}`} className="text-primary hover:underline">
+              View meeting
+            </Link>
+          ) : (
+            <span className="text-muted-foreground">Uploaded. It will appear on your dashboard once processed.</span>
+          )}
+        </div>
+      )}
+
+      {item.status === "failed" && item.error && (
+        <div className="flex items-center space-x-2 text-sm text-destructive">
+          <AlertCircle className="w-4 h-4 shrink-0" />
+          <span>{item.error}</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  apiService,
+  type ActionItem,
+  type ActionItemListParams,
+  type ActionItemWithMeeting,
+  type CreateActionItemRequest,
+  type Meeting,
+  type UpdateActionItemRequest
+} from '@/services/apiService';
+import { meetingKeys } from '@/hooks/useMeetings';
+import { useToast } from '@/hooks/use-toast';
+
+export const actionItemKeys = {
+  all: ['actionItems'] as const,
+  list: (params: ActionItemListParams) => [...actionItemKeys.all, params] as const,
+};
+
+/**
+ * Action items aggregated across all meetings.
+ */
+export const useAllActionItems = (params: ActionItemListParams) => {
+  return useQuery({
+    queryKey: actionItemKeys.list(params),
+    queryFn: () => apiService.getAllActionItems(params),
+  });
+};
+
+/**
+ * Optimistically toggle an item's status from the cross-meeting listing.
+ */
+export const useToggleActionItemStatus = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: (item: ActionItemWithMeeting) =>
+      apiService.updateActionItem(item.meetingId, item.id, {
+        status: item.status === 'completed' ? 'pending' : 'completed'
+      }),
+    onMutate: async (item) => {
+      await queryClient.cancelQueries({ queryKey: actionItemKeys.all });
+      const previous = queryClient.getQueriesData<ActionItemWithMeeting[]>({ queryKey: actionItemKeys.all });
+      queryClient.setQueriesData<ActionItemWithMeeting[]>({ queryKey: actionItemKeys.all }, (items) =>
+        items?.map(existing => existing.id === item.id
+          ? { ...existing, status: item.status === 'completed' ? 'pending' : 'completed' }
+          : existing)
+      );
+      return { previous };
+    },
+    onError: (error, _item, context) => {
+      context?.previous.forEach(([queryKey, data]) => queryClient.setQueryData(queryKey, data));
+      toast({ title: 'Failed to update action item', description: error.message, variant: 'destructive' });
+    },
+    onSettled: (_result, _error, item) => {
+      queryClient.invalidateQueries({ queryKey: actionItemKeys.all });
+      queryClient.invalidateQueries({ queryKey: meetingKeys.detail(item.meetingId) });
+    },
+  });
+};
+
+/**
+ * Optimistic create/update/delete mutations for a meeting's action items.
+ *
+ * Each mutation patches the cached meeting immediately, restores the
+ * previous snapshot if the request fails, and refetches once settled.
+ */
+export const useActionItemMutations = (meetingId: string) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const queryKey = meetingKeys.detail(meetingId);
+
+  const applyOptimistic = async (update: (items: ActionItem[]) => ActionItem[]) => {
+    await queryClient.cancelQueries({ queryKey });
+    const previous = queryClient.getQueryData<Meeting>(queryKey);
+    queryClient.setQueryData<Meeting>(queryKey, (meeting) =>
+      meeting && { ...meeting, actionItems: update(meeting.actionItems ?? []) }
+    );
+    return { previous };
+  };
+
+  const rollback = (title: string) => (error: Error, _variables: unknown, context?: { previous?: Meeting }) => {
+    if (context?.previous) {
+      queryClient.setQueryData(queryKey, context.previous);
+    }
+    toast({ title, description: error.message, variant: 'destructive' });
+  };
+
+  const settle = () => {
+    queryClient.invalidateQueries({ queryKey });
+    queryClient.invalidateQueries({ queryKey: actionItemKeys.all });
+  };
+
+  const createItem = useMutation({
+    mutationFn: (item: CreateActionItemRequest) => apiService.createActionItem(meetingId, item),
+    onMutate: (item: CreateActionItemRequest) => applyOptimistic(items => [
+      ...items,
+      { id: `temp_${Date.now()}`, meetingId, status: 'pending' as const, ...item }
+    ]),
+    onError: rollback('Failed to add action item'),
+    onSettled: settle,
+  });
+
+  const updateItem = useMutation({
+    mutationFn: ({ itemId, updates }: { itemId: string; updates: UpdateActionItemRequest }) =>
+      apiService.updateActionItem(meetingId, itemId, updates),
+    onMutate: ({ itemId, updates }) => applyOptimistic(items =>
+      items.map(item => (item.id === itemId ? { ...item, ...updates } : item))
+    ),
+    onError: rollback('Failed to update action item'),
+    onSettled: settle,
+  });
+
+  const deleteItem = useMutation({
+    mutationFn: (itemId: string) => apiService.deleteActionItem(meetingId, itemId),
+    onMutate: (itemId) => applyOptimistic(items => items.filter(item => item.id !== itemId)),
+    onError: rollback('Failed to delete action item'),
+    onSettled: settle,
+  });
+
+  return { createItem, updateItem, deleteItem };
+};
@@ -0,0 +1,101 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { RecordingSource } from '@/hooks/useMediaRecorder';
+
+// Device IDs only mean something on this device and origin, so the choice is kept locally
+const STORAGE_KEY = 'meetingSummarizer_audioInputDeviceId';
+
+export interface AudioInputDevice {
+  deviceId: string;
+  label: string;
+}
+
+const readSavedDeviceId = (): string | null => {
+  try {
+    return localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Microphones available to the browser, and the one chosen for recording.
+ *
+ * The list follows `devicechange` events, so plugging in a headset shows it
+ * right away. If the chosen microphone is unplugged, `selectedDeviceId` falls
+ * back to the system default until it comes back. Device labels are only
+ * available once microphone access has been granted.
+ */
+export const useAudioInputDevices = () => {
+  const [devices, setDevices] = useState<AudioInputDevice[]>([]);
+  const [savedDeviceId, setSavedDeviceId] = useState<string | null>(readSavedDeviceId);
+
+  const refresh = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+    try {
+      const inputs = (await navigator.mediaDevices.enumerateDevices())
+        .filter(device => device.kind === 'audioinput' && device.deviceId)
+        .map((device, index) => ({
+          deviceId: device.deviceId,
+          label: device.label || `Microphone ${index + 1}`,
+        }));
+      setDevices(inputs);
+    } catch (error) {
+      console.warn('Failed to list microphones:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+  }, [refresh]);
+
+  const selectDevice = useCallback((deviceId: string | null) => {
+    setSavedDeviceId(deviceId);
+    try {
+      if (deviceId) localStorage.setItem(STORAGE_KEY, deviceId);
+      else localStorage.removeItem(STORAGE_KEY);
+    } catch (error) {
+      console.warn('Failed to save microphone choice:', error);
+    }
+  }, []);
+
+  const isSavedDeviceAvailable = savedDeviceId !== null && devices.some(device => device.deviceId === savedDeviceId);
+
+  return {
+    devices,
+    selectedDeviceId: isSavedDeviceAvailable ? savedDeviceId : null, // null: system default
+    isSavedDeviceMissing: savedDeviceId !== null && devices.length > 0 && !isSavedDeviceAvailable,
+    selectDevice,
+    refresh,
+  };
+};
+
+const SOURCE_STORAGE_KEY = 'meetingSummarizer_recordingSource';
+
+const readSavedSource = (): RecordingSource => {
+  try {
+    return localStorage.getItem(SOURCE_STORAGE_KEY) === 'call' ? 'call' : 'microphone';
+  } catch {
+    return 'microphone';
+  }
+};
+
+/**
+ * The recording source mode, remembered between visits so people who mostly
+ * record calls don't have to switch every time.
+ */
+export const useRecordingSource = () => {
+  const [source, setSource] = useState<RecordingSource>(readSavedSource);
+
+  const selectSource = useCallback((next: RecordingSource) => {
+    setSource(next);
+    try {
+      localStorage.setItem(SOURCE_STORAGE_KEY, next);
+    } catch (error) {
+      console.warn('Failed to save recording source:', error);
+    }
+  }, []);
+
+  return { source, selectSource };
+};
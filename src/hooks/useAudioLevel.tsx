@@ -0,0 +1,96 @@
+import { useEffect, useState } from 'react';
+
+// Below this RMS level (about -50 dBFS) the input counts as silent
+const SILENCE_RMS = 0.003;
+
+// Samples at or above this magnitude count as clipped
+const CLIPPING_SAMPLE = 0.99;
+
+// How long a problem has to last before it's worth a warning
+const SILENCE_WARNING_MS = 5000;
+const CLIPPING_WARNING_MS = 3000;
+
+// Clipping is bursty; a gap this long ends a clipping stretch
+const CLIPPING_GAP_MS = 500;
+
+// The meter doesn't need to re-render on every animation frame
+const UPDATE_INTERVAL_MS = 66;
+
+export type AudioLevelWarning = 'silent' | 'clipping';
+
+interface AudioLevel {
+  level: number; // 0-1, scaled for display
+  warning: AudioLevelWarning | null;
+}
+
+/**
+ * Live input level of an audio stream, measured with an AnalyserNode,
+ * plus a warning once the input has been silent or clipping for a while.
+ *
+ * Pass `active: false` (e.g. while paused) to stop measuring without
+ * releasing the stream.
+ */
+export const useAudioLevel = (stream: MediaStream | null, active = true): AudioLevel => {
+  const [audioLevel, setAudioLevel] = useState<AudioLevel>({ level: 0, warning: null });
+
+  useEffect(() => {
+    if (!stream || !active || stream.getAudioTracks().length === 0) {
+      setAudioLevel({ level: 0, warning: null });
+      return;
+    }
+
+    const audioContext = new AudioContext();
+    const source = audioContext.createMediaStreamSource(stream);
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 2048;
+    source.connect(analyser);
+    const samples = new Float32Array(analyser.fftSize);
+
+    let lastSoundAt = performance.now();
+    let clippingSince: number | null = null;
+    let lastClipAt = 0;
+    let lastUpdateAt = 0;
+    let frame = 0;
+
+    const measure = (now: number) => {
+      analyser.getFloatTimeDomainData(samples);
+
+      let sumOfSquares = 0;
+      let clipped = false;
+      for (const sample of samples) {
+        sumOfSquares += sample * sample;
+        if (Math.abs(sample) >= CLIPPING_SAMPLE) clipped = true;
+      }
+      const rms = Math.sqrt(sumOfSquares / samples.length);
+
+      if (rms >= SILENCE_RMS) lastSoundAt = now;
+      if (clipped) {
+        if (clippingSince === null || now - lastClipAt > CLIPPING_GAP_MS) clippingSince = now;
+        lastClipAt = now;
+      } else if (clippingSince !== null && now - lastClipAt > CLIPPING_GAP_MS) {
+        clippingSince = null;
+      }
+
+      if (now - lastUpdateAt >= UPDATE_INTERVAL_MS) {
+        lastUpdateAt = now;
+        const warning: AudioLevelWarning | null =
+          clippingSince !== null && now - clippingSince >= CLIPPING_WARNING_MS ? 'clipping'
+          : now - lastSoundAt >= SILENCE_WARNING_MS ? 'silent'
+          : null;
+        // Speech RMS sits well below 1; stretch it so normal talking fills most of the meter
+        setAudioLevel({ level: Math.min(1, Math.sqrt(rms) * 2), warning });
+      }
+
+      frame = requestAnimationFrame(measure);
+    };
+    frame = requestAnimationFrame(measure);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      source.disconnect();
+      audioContext.close();
+    };
+  }, [stream, active]);
+
+  return audioLevel;
+};
@@ -0,0 +1,107 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { addDays, format, startOfDay } from 'date-fns';
+import { apiService, type CalDavCredentials, type CalendarProviderId } from '@/services/apiService';
+import {
+  getCalendarEvents,
+  getImportedCalendars,
+  importIcsFile,
+  removeImportedCalendar
+} from '@/services/calendarService';
+import { useToast } from '@/hooks/use-toast';
+
+export const calendarKeys = {
+  all: ['calendar'] as const,
+  connections: () => [...calendarKeys.all, 'connections'] as const,
+  imported: () => [...calendarKeys.all, 'imported'] as const,
+  events: (day: string) => [...calendarKeys.all, 'events', day] as const,
+};
+
+/**
+ * Calendar events on the given day from every calendar source.
+ * Runs offline too, so imported .ics calendars are always offered.
+ */
+export const useCalendarEvents = (day: Date = new Date()) => {
+  const dayStart = startOfDay(day);
+
+  return useQuery({
+    queryKey: calendarKeys.events(format(dayStart, 'yyyy-MM-dd')),
+    queryFn: () => getCalendarEvents(dayStart, addDays(dayStart, 1)),
+    networkMode: 'always',
+    staleTime: 5 * 60 * 1000,
+  });
+};
+
+/**
+ * Calendar accounts connected through the backend.
+ */
+export const useCalendarConnections = () => {
+  return useQuery({
+    queryKey: calendarKeys.connections(),
+    queryFn: () => apiService.getCalendarConnections(),
+  });
+};
+
+/**
+ * .ics calendars imported on this device.
+ */
+export const useImportedCalendars = () => {
+  return useQuery({
+    queryKey: calendarKeys.imported(),
+    queryFn: getImportedCalendars,
+    networkMode: 'always',
+  });
+};
+
+/**
+ * Connect and disconnect calendar accounts, and import or remove .ics files.
+ */
+export const useCalendarMutations = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: calendarKeys.all });
+  const showError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: 'destructive' });
+  };
+
+  const connect = useMutation({
+    mutationFn: ({ provider, credentials }: { provider: CalendarProviderId; credentials?: CalDavCredentials }) =>
+      apiService.connectCalendar(provider, credentials),
+    onSuccess: ({ authUrl, connection }) => {
+      // OAuth providers finish connecting on their own consent page
+      if (authUrl) {
+        window.location.assign(authUrl);
+        return;
+      }
+      if (connection) {
+        toast({ title: 'Calendar connected', description: connection.accountName });
+      }
+      refresh();
+    },
+    onError: showError('Failed to connect calendar'),
+  });
+
+  const disconnect = useMutation({
+    mutationFn: (connectionId: string) => apiService.disconnectCalendar(connectionId),
+    onSuccess: refresh,
+    onError: showError('Failed to disconnect calendar'),
+  });
+
+  const importIcs = useMutation({
+    mutationFn: (file: File) => importIcsFile(file),
+    networkMode: 'always',
+    onSuccess: ({ calendar, eventCount }) => {
+      toast({ title: 'Calendar imported', description: `${eventCount} events from ${calendar.name}` });
+      refresh();
+    },
+    onError: showError('Failed to import calendar'),
+  });
+
+  const removeImported = useMutation({
+    mutationFn: async (calendarId: string) => removeImportedCalendar(calendarId),
+    networkMode: 'always',
+    onSuccess: refresh,
+  });
+
+  return { connect, disconnect, importIcs, removeImported };
+};
@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { apiService, type LiveTranscriptionConnection, type TranscriptSegment } from '@/services/apiService';
+
+/**
+ * - off: not streaming
+ * - live: audio is streaming and captions are coming in
+ * - finishing: recording stopped, waiting for the last segments
+ * - complete: the transcript covers the whole recording
+ * - failed: the stream broke off; the transcript is incomplete
+ */
+export type LiveTranscriptionStatus = 'off' | 'live' | 'finishing' | 'complete' | 'failed';
+
+/**
+ * Transcript of a recording in progress, streamed from the server.
+ * `useMediaRecorder` drives it: `start` when recording begins, `sendAudio`
+ * for every chunk, then `finish` once recording has stopped.
+ */
+export const useLiveTranscription = () => {
+  const [status, setStatus] = useState<LiveTranscriptionStatus>('off');
+  const [segments, setSegments] = useState<TranscriptSegment[]>([]);
+  const [partial, setPartial] = useState<TranscriptSegment | null>(null);
+  const connectionRef = useRef<LiveTranscriptionConnection | null>(null);
+
+  const start = useCallback((mimeType: string) => {
+    connectionRef.current?.close();
+    setSegments([]);
+    setPartial(null);
+    setStatus('live');
+
+    try {
+      connectionRef.current = apiService.openLiveTranscription(mimeType, (event) => {
+        switch (event.type) {
+          case 'partial':
+            setPartial(event.segment);
+            break;
+          case 'final':
+            setPartial(null);
+            setSegments(prev => [...prev, event.segment]);
+            break;
+          case 'done':
+            setStatus(prev => (prev === 'failed' ? prev : 'complete'));
+            break;
+          case 'error':
+            console.warn('Live transcription stopped:', event.message);
+            setPartial(null);
+            setStatus('failed');
+            break;
+        }
+      });
+    } catch (error) {
+      console.warn('Live transcription unavailable:', error);
+      connectionRef.current = null;
+      setStatus('failed');
+    }
+  }, []);
+
+  const sendAudio = useCallback((chunk: Blob) => {
+    connectionRef.current?.sendAudio(chunk);
+  }, []);
+
+  const finish = useCallback(async () => {
+    const connection = connectionRef.current;
+    if (!connection) return;
+    setStatus(prev => (prev === 'live' ? 'finishing' : prev));
+    await connection.finish();
+    if (connectionRef.current === connection) connectionRef.current = null;
+  }, []);
+
+  const cancel = useCallback(() => {
+    connectionRef.current?.close();
+    connectionRef.current = null;
+    setPartial(null);
+    setStatus('off');
+  }, []);
+
+  useEffect(() => () => connectionRef.current?.close(), []);
+
+  return { status, segments, partial, start, sendAudio, finish, cancel };
+};
@@ -1,113 +1,395 @@
-import { useState, useRef, useCallback } from 'react';
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { appendRecordingChunk, createRecordingSession, deleteRecording, releaseRecording } from '@/services/recordingStore';
+import { createAudioMix, type AudioMix } from '@/lib/audioMixer';
+import { useLiveTranscription, type LiveTranscriptionStatus } from '@/hooks/useLiveTranscription';
+import type { TranscriptSegment } from '@/services/apiService';
+import {
+  AUDIO_QUALITY_PRESETS,
+  DEFAULT_AUDIO_QUALITY,
+  negotiateRecordingFormat,
+  type AudioQuality,
+} from '@/lib/recordingFormat';
+
+// How often the recorder hands over a chunk to be stored
+const CHUNK_INTERVAL_MS = 5000;
+
+// Shorter chunks while streaming, so captions don't lag seconds behind
+const LIVE_CHUNK_INTERVAL_MS = 1000;
+
+// How often the displayed time is refreshed; the time itself comes from the clock
+const TICK_INTERVAL_MS = 250;
+
+/**
+ * Open the chosen microphone, falling back to the default one if it's gone
+ */
+const getMicrophoneStream = async (deviceId: string | null | undefined, sampleRate: number): Promise<MediaStream> => {
+  if (deviceId) {
+    try {
+      return await navigator.mediaDevices.getUserMedia({
+        audio: { deviceId: { exact: deviceId }, sampleRate: { ideal: sampleRate } },
+        video: false,
+      });
+    } catch (err) {
+      if (!(err instanceof DOMException) || err.name !== 'OverconstrainedError') throw err;
+      console.warn('Selected microphone unavailable, using the default one');
+    }
+  }
+  return navigator.mediaDevices.getUserMedia({ audio: { sampleRate: { ideal: sampleRate } }, video: false });
+};
+
+/**
+ * Where the recording's audio comes from:
+ * - microphone: the local microphone only, for in-person meetings
+ * - call: the microphone mixed with a shared tab's or the system's audio,
+ *   so remote participants on Zoom/Meet/Teams calls are recorded too
+ */
+export type RecordingSource = 'microphone' | 'call';
+
+// Gain node ids in the call mix
+const MIC_INPUT = 'microphone';
+const TAB_INPUT = 'tab';
+
+class NoTabAudioError extends Error {
+  constructor() {
+    super('The shared tab or screen has no audio');
+    this.name = 'NoTabAudioError';
+  }
+}
+
+/**
+ * Ask the user to share a tab or screen and keep only its audio. Browsers
+ * won't offer audio-only sharing, so the video track is requested and then
+ * stopped right away.
+ */
+const getTabAudioStream = async (): Promise<MediaStream> => {
+  const displayStream = await navigator.mediaDevices.getDisplayMedia({
+    video: true,
+    audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+    // Chrome: offer system audio when sharing a whole screen
+    systemAudio: 'include',
+  } as DisplayMediaStreamOptions);
+
+  displayStream.getVideoTracks().forEach(track => {
+    track.stop();
+    displayStream.removeTrack(track);
+  });
+  if (displayStream.getAudioTracks().length === 0) throw new NoTabAudioError();
+  return displayStream;
+};
+
+const describeStartError = (err: unknown, source: RecordingSource): string => {
+  if (err instanceof NoTabAudioError) {
+    return 'No call audio was shared. Pick the meeting tab (or your whole screen) and turn on "Share audio".';
+  }
+  if (source === 'call' && err instanceof DOMException && err.name === 'NotAllowedError') {
+    return 'Failed to start recording. Sharing was cancelled, or microphone access was denied.';
+  }
+  return 'Failed to start recording. Please check microphone permissions.';
+};
+
+export type RecorderState = 'idle' | 'acquiring' | 'recording' | 'paused' | 'stopping' | 'error';
+
+// Allowed moves between recorder states; anything else is ignored
+const TRANSITIONS: Record<RecorderState, RecorderState[]> = {
+  idle: ['acquiring'],
+  acquiring: ['recording', 'error'],
+  recording: ['paused', 'stopping', 'error'],
+  paused: ['recording', 'stopping', 'error'],
+  stopping: ['idle', 'error'],
+  error: ['acquiring', 'idle'],
+};
+
+interface UseMediaRecorderOptions {
+  deviceId?: string | null; // microphone to record from; the system default if missing
+  source?: RecordingSource; // 'microphone' if missing
+  audioQuality?: AudioQuality; // picks bitrate and sample rate; 'medium' if missing
+  micGain?: number; // call mode only: 0-2, can change while recording
+  tabGain?: number; // call mode only: 0-2, can change while recording
+  liveTranscription?: boolean; // stream audio for live captions while recording
+}
 
 interface UseMediaRecorderReturn {
-  isRecording: boolean;
-  recordingTime: number;
-  startRecording: () => Promise<void>;
+  state: RecorderState;
+  stream: MediaStream | null; // live input (the mix, in call mode) while recording or paused
+  tabAudioEnded: boolean; // call mode: sharing was stopped, only the microphone is still recorded
+  isRecording: boolean; // recording or paused
+  isPaused: boolean;
+  recordingTime: number; // seconds recorded, excluding paused time
+  getRecordedSeconds: () => number; // exact recorded time right now, for timestamping
+  sessionId: string | null; // stored copy of the recording, if storage is available
+  liveTranscript: {
+    status: LiveTranscriptionStatus;
+    segments: TranscriptSegment[];
+    partial: TranscriptSegment | null; // the sentence still being spoken
+  };
+  startRecording: () => Promise<boolean>; // whether recording started
   stopRecording: () => Promise<Blob | null>;
   pauseRecording: () => void;
   resumeRecording: () => void;
   error: string | null;
 }
 
-export const useMediaRecorder = (): UseMediaRecorderReturn => {
-  const [isRecording, setIsRecording] = useState(false);
+export const useMediaRecorder = ({
+  deviceId,
+  source = 'microphone',
+  audioQuality = DEFAULT_AUDIO_QUALITY,
+  micGain = 1,
+  tabGain = 1,
+  liveTranscription = false,
+}: UseMediaRecorderOptions = {}): UseMediaRecorderReturn => {
+  const [state, setState] = useState<RecorderState>('idle');
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [tabAudioEnded, setTabAudioEnded] = useState(false);
   const [recordingTime, setRecordingTime] = useState(0);
+  const [sessionId, setSessionId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
-  
+  const live = useLiveTranscription();
+  const { start: startLive, sendAudio: sendLiveAudio, finish: finishLive, cancel: cancelLive } = live;
+
+  const stateRef = useRef<RecorderState>('idle');
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const chunksRef = useRef<Blob[]>([]);
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
+  const mimeTypeRef = useRef('');
+  const sessionIdRef = useRef<string | null>(null);
+  // Every stream opened for the recording, so a failed start can still close them;
+  // in call mode they feed the mix
+  const inputStreamsRef = useRef<MediaStream[]>([]);
+  const audioMixRef = useRef<AudioMix | null>(null);
+  // Recorded time is the finished stretches plus the one in progress, if any
+  const accumulatedMsRef = useRef(0);
+  const segmentStartRef = useRef<number | null>(null);
+  // Set once the page is left, so a start still waiting on permissions or
+  // storage gives up instead of recording in the background
+  const unmountedRef = useRef(false);
+
+  const transition = useCallback((next: RecorderState): boolean => {
+    if (!TRANSITIONS[stateRef.current].includes(next)) {
+      console.warn(`Ignoring recorder transition ${stateRef.current} -> ${next}`);
+      return false;
+    }
+    stateRef.current = next;
+    setState(next);
+    return true;
+  }, []);
+
+  const getElapsedMs = useCallback(() => {
+    const segmentStart = segmentStartRef.current;
+    return accumulatedMsRef.current + (segmentStart !== null ? Date.now() - segmentStart : 0);
+  }, []);
+
+  const getRecordedSeconds = useCallback(() => getElapsedMs() / 1000, [getElapsedMs]);
+
+  const endSegment = useCallback(() => {
+    accumulatedMsRef.current = getElapsedMs();
+    segmentStartRef.current = null;
+    setRecordingTime(Math.floor(accumulatedMsRef.current / 1000));
+  }, [getElapsedMs]);
+
+  const releaseStream = useCallback(() => {
+    mediaRecorderRef.current?.stream.getTracks().forEach(track => {
+      track.stop();
+    });
+    inputStreamsRef.current.forEach(input => input.getTracks().forEach(track => track.stop()));
+    inputStreamsRef.current = [];
+    audioMixRef.current?.close();
+    audioMixRef.current = null;
+    setStream(null);
+  }, []);
+
+  // Leaving the page mid-recording stops everything and leaves what was
+  // recorded to be offered for recovery
+  useEffect(() => {
+    unmountedRef.current = false;
+    return () => {
+      unmountedRef.current = true;
+      const mediaRecorder = mediaRecorderRef.current;
+      const storedSessionId = sessionIdRef.current;
+      if (mediaRecorder && mediaRecorder.state !== 'inactive') {
+        mediaRecorder.onerror = null;
+        // Release once the last chunk has been handed over for storage
+        mediaRecorder.onstop = () => {
+          if (storedSessionId) releaseRecording(storedSessionId);
+        };
+        mediaRecorder.stop();
+      } else if (storedSessionId) {
+        releaseRecording(storedSessionId);
+      }
+      releaseStream();
+    };
+  }, [releaseStream]);
+
+  const fail = useCallback((message: string, err: unknown) => {
+    console.error('Recording error:', err);
+    segmentStartRef.current = null;
+    cancelLive();
+    setError(message);
+    transition('error');
+  }, [transition, cancelLive]);
+
+  // Gains can be adjusted mid-recording
+  useEffect(() => {
+    audioMixRef.current?.setGain(MIC_INPUT, micGain);
+  }, [micGain]);
+
+  useEffect(() => {
+    audioMixRef.current?.setGain(TAB_INPUT, tabGain);
+  }, [tabGain]);
+
+  // Refresh the displayed time while recording
+  useEffect(() => {
+    if (state !== 'recording') return;
+    const interval = setInterval(() => {
+      setRecordingTime(Math.floor(getElapsedMs() / 1000));
+    }, TICK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [state, getElapsedMs]);
+
+  const startRecording = useCallback(async (): Promise<boolean> => {
+    if (!transition('acquiring')) return false;
+    setError(null);
+    setTabAudioEnded(false);
+
+    // Checked after every wait: close whatever was opened in the meantime
+    const abandoned = () => {
+      if (!unmountedRef.current) return false;
+      releaseStream();
+      return true;
+    };
 
-  const startRecording = useCallback(async () => {
     try {
-      setError(null);
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        audio: true, 
-        video: false 
-      });
-      
-      const mediaRecorder = new MediaRecorder(stream);
+      const { audioBitsPerSecond, sampleRate } = AUDIO_QUALITY_PRESETS[audioQuality];
+      let stream: MediaStream;
+      if (source === 'call') {
+        // Share first: the browser only allows it close to the click that started recording
+        const tabStream = await getTabAudioStream();
+        inputStreamsRef.current = [tabStream];
+        if (abandoned()) return false;
+        const micStream = await getMicrophoneStream(deviceId, sampleRate);
+        inputStreamsRef.current.push(micStream);
+        if (abandoned()) return false;
+
+        // The call may outlast the sharing; keep recording the microphone if it stops
+        tabStream.getAudioTracks()[0].addEventListener('ended', () => setTabAudioEnded(true));
+
+        audioMixRef.current = createAudioMix([
+          { id: MIC_INPUT, stream: micStream, gain: micGain },
+          { id: TAB_INPUT, stream: tabStream, gain: tabGain },
+        ]);
+        stream = audioMixRef.current.stream;
+      } else {
+        stream = await getMicrophoneStream(deviceId, sampleRate);
+        inputStreamsRef.current = [stream];
+        if (abandoned()) return false;
+      }
+
+      const format = negotiateRecordingFormat();
+      const mediaRecorder = new MediaRecorder(stream, { mimeType: format?.mimeType, audioBitsPerSecond });
       mediaRecorderRef.current = mediaRecorder;
       chunksRef.current = [];
+      // Some browsers leave mimeType empty; fall back to the type that was asked for
+      mimeTypeRef.current = mediaRecorder.mimeType || format?.mimeType || '';
+
+      // Store chunks as they arrive so a crash or reload doesn't lose the recording.
+      // Without IndexedDB (e.g. some private windows) we still record in memory.
+      const storedSessionId = await createRecordingSession(mimeTypeRef.current)
+        .catch((err) => {
+          console.warn('Recording will not survive a reload:', err);
+          return null;
+        });
+      if (abandoned()) {
+        // Nothing was recorded into it
+        if (storedSessionId) deleteRecording(storedSessionId);
+        return false;
+      }
+      sessionIdRef.current = storedSessionId;
+      setSessionId(storedSessionId);
+
+      if (liveTranscription) startLive(mimeTypeRef.current);
+      else cancelLive();
 
       mediaRecorder.ondataavailable = (event) => {
         if (event.data.size > 0) {
-          chunksRef.current.push(event.data);
+          if (liveTranscription) sendLiveAudio(event.data);
+          const index = chunksRef.current.push(event.data) - 1;
+          if (storedSessionId) {
+            appendRecordingChunk(storedSessionId, index, event.data, Math.floor(getElapsedMs() / 1000))
+              .catch((err) => console.error('Failed to store recording chunk:', err));
+          }
         }
       };
 
-      mediaRecorder.start();
-      setIsRecording(true);
-      setRecordingTime(0);
+      mediaRecorder.onerror = (event) => {
+        releaseStream();
+        fail('Recording stopped unexpectedly. What was recorded so far can be recovered on next launch.', event);
+      };
 
-      // Start timer
-      intervalRef.current = setInterval(() => {
-        setRecordingTime(prev => prev + 1);
-      }, 1000);
+      mediaRecorder.start(liveTranscription ? LIVE_CHUNK_INTERVAL_MS : CHUNK_INTERVAL_MS);
+      setStream(stream);
+      accumulatedMsRef.current = 0;
+      segmentStartRef.current = Date.now();
+      setRecordingTime(0);
+      return transition('recording');
 
     } catch (err) {
-      setError('Failed to start recording. Please check microphone permissions.');
-      console.error('Recording error:', err);
+      releaseStream();
+      fail(describeStartError(err, source), err);
+      return false;
     }
-  }, []);
+  }, [
+    deviceId, source, audioQuality, micGain, tabGain, liveTranscription,
+    transition, getElapsedMs, fail, releaseStream, startLive, sendLiveAudio, cancelLive,
+  ]);
 
   const stopRecording = useCallback((): Promise<Blob | null> => {
     return new Promise((resolve) => {
-      if (!mediaRecorderRef.current || !isRecording) {
+      const mediaRecorder = mediaRecorderRef.current;
+      if (!mediaRecorder || !transition('stopping')) {
         resolve(null);
         return;
       }
 
-      mediaRecorderRef.current.onstop = () => {
-        const blob = new Blob(chunksRef.current, { type: 'audio/webm' });
-        
-        // Stop all tracks
-        if (mediaRecorderRef.current?.stream) {
-          mediaRecorderRef.current.stream.getTracks().forEach(track => {
-            track.stop();
-          });
-        }
-
+      mediaRecorder.onstop = () => {
+        const blob = new Blob(chunksRef.current, { type: mediaRecorder.mimeType || mimeTypeRef.current });
+        releaseStream();
+        transition('idle');
         resolve(blob);
+        // The last chunk has been sent; let the server catch up in the background
+        finishLive();
       };
 
-      mediaRecorderRef.current.stop();
-      setIsRecording(false);
-      
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
-      }
+      endSegment();
+      mediaRecorder.stop();
     });
-  }, [isRecording]);
+  }, [transition, endSegment, releaseStream, finishLive]);
 
   const pauseRecording = useCallback(() => {
-    if (mediaRecorderRef.current && isRecording) {
+    if (mediaRecorderRef.current && transition('paused')) {
       mediaRecorderRef.current.pause();
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
-      }
+      endSegment();
     }
-  }, [isRecording]);
+  }, [transition, endSegment]);
 
   const resumeRecording = useCallback(() => {
-    if (mediaRecorderRef.current && isRecording) {
+    if (mediaRecorderRef.current && transition('recording')) {
       mediaRecorderRef.current.resume();
-      intervalRef.current = setInterval(() => {
-        setRecordingTime(prev => prev + 1);
-      }, 1000);
+      segmentStartRef.current = Date.now();
     }
-  }, [isRecording]);
+  }, [transition]);
 
   return {
-    isRecording,
+    state,
+    stream,
+    tabAudioEnded,
+    isRecording: state === 'recording' || state === 'paused',
+    isPaused: state === 'paused',
     recordingTime,
+    getRecordedSeconds,
+    sessionId,
+    liveTranscript: { status: live.status, segments: live.segments, partial: live.partial },
     startRecording,
     stopRecording,
     pauseRecording,
     resumeRecording,
     error
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,180 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { apiService, type ChatTurn, type TranscriptCitation } from '@/services/apiService';
+
+export interface ChatMessage {
+  id: string;
+  type: 'user' | 'assistant';
+  content: string;
+  timestamp: Date;
+  status?: 'streaming' | 'complete' | 'stopped' | 'error';
+  error?: string;
+  citations?: TranscriptCitation[];
+}
+
+interface UseMeetingChatReturn {
+  messages: ChatMessage[];
+  isStreaming: boolean;
+  sendMessage: (question: string) => Promise<void>;
+  stopGeneration: () => void;
+  retryMessage: (assistantMessageId: string) => Promise<void>;
+  clearConversation: () => void;
+}
+
+const STORAGE_KEY_PREFIX = 'meetingSummarizer_chat_';
+const MAX_HISTORY_TURNS = 10;
+
+const loadConversation = (meetingId: string): ChatMessage[] => {
+  try {
+    const stored = localStorage.getItem(`${STORAGE_KEY_PREFIX}${meetingId}`);
+    if (!stored) return [];
+    return (JSON.parse(stored) as ChatMessage[]).map(message => ({
+      ...message,
+      timestamp: new Date(message.timestamp),
+      // A stream cut off by navigation can't be continued
+      status: message.status === 'streaming' ? 'stopped' : message.status
+    }));
+  } catch (error) {
+    console.error('Failed to load chat history:', error);
+    return [];
+  }
+};
+
+// Prior turns sent as context with each question
+const toHistory = (conversation: ChatMessage[]): ChatTurn[] =>
+  conversation
+    .filter(message => message.content && message.status !== 'error')
+    .slice(-MAX_HISTORY_TURNS)
+    .map(message => ({ role: message.type, content: message.content }));
+
+const createId = () => `${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+
+/**
+ * Streaming Q&A conversation about a single meeting.
+ *
+ * The conversation is persisted in localStorage per meeting, so it is
+ * restored when the user navigates back to the meeting.
+ */
+export const useMeetingChat = (meetingId: string): UseMeetingChatReturn => {
+  const [messages, setMessages] = useState<ChatMessage[]>(() => loadConversation(meetingId));
+  const [conversationMeetingId, setConversationMeetingId] = useState(meetingId);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Swap in the stored conversation as soon as the meeting changes, before
+  // the persistence effect could write the old messages under the new ID
+  if (conversationMeetingId !== meetingId) {
+    setConversationMeetingId(meetingId);
+    setMessages(loadConversation(meetingId));
+  }
+
+  // Abort any answer still streaming when leaving the meeting
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, [meetingId]);
+
+  useEffect(() => {
+    localStorage.setItem(`${STORAGE_KEY_PREFIX}${conversationMeetingId}`, JSON.stringify(messages));
+  }, [conversationMeetingId, messages]);
+
+  const updateMessage = useCallback((id: string, update: (message: ChatMessage) => ChatMessage) => {
+    setMessages(prev => prev.map(message => (message.id === id ? update(message) : message)));
+  }, []);
+
+  const streamAnswer = useCallback(async (question: string, history: ChatTurn[]) => {
+    const assistantMessage: ChatMessage = {
+      id: createId(),
+      type: 'assistant',
+      content: '',
+      timestamp: new Date(),
+      status: 'streaming'
+    };
+    setMessages(prev => [...prev, assistantMessage]);
+    setIsStreaming(true);
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    try {
+      await apiService.streamMeetingChat(
+        meetingId,
+        { question, history },
+        (event) => {
+          if (event.type === 'token') {
+            updateMessage(assistantMessage.id, message => ({
+              ...message,
+              content: message.content + event.content
+            }));
+          } else if (event.type === 'citation') {
+            updateMessage(assistantMessage.id, message => ({
+              ...message,
+              citations: [...(message.citations ?? []), event.citation]
+            }));
+          }
+        },
+        controller.signal
+      );
+      updateMessage(assistantMessage.id, message => ({ ...message, status: 'complete' }));
+    } catch (err) {
+      if (controller.signal.aborted) {
+        updateMessage(assistantMessage.id, message => ({ ...message, status: 'stopped' }));
+      } else {
+        console.error('Chat error:', err);
+        updateMessage(assistantMessage.id, message => ({
+          ...message,
+          status: 'error',
+          error: err instanceof Error ? err.message : 'Failed to get an answer.'
+        }));
+      }
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setIsStreaming(false);
+      }
+    }
+  }, [meetingId, updateMessage]);
+
+  const sendMessage = useCallback(async (question: string) => {
+    if (!question.trim() || isStreaming) return;
+
+    const userMessage: ChatMessage = {
+      id: createId(),
+      type: 'user',
+      content: question.trim(),
+      timestamp: new Date()
+    };
+    const history = toHistory(messages);
+    setMessages(prev => [...prev, userMessage]);
+    await streamAnswer(userMessage.content, history);
+  }, [isStreaming, messages, streamAnswer]);
+
+  const stopGeneration = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  const retryMessage = useCallback(async (assistantMessageId: string) => {
+    if (isStreaming) return;
+
+    const index = messages.findIndex(message => message.id === assistantMessageId);
+    const question = messages.slice(0, index).reverse().find(message => message.type === 'user');
+    if (index === -1 || !question) return;
+
+    const questionIndex = messages.indexOf(question);
+    const history = toHistory(messages.slice(0, questionIndex));
+    setMessages(prev => prev.filter(message => message.id !== assistantMessageId));
+    await streamAnswer(question.content, history);
+  }, [isStreaming, messages, streamAnswer]);
+
+  const clearConversation = useCallback(() => {
+    abortControllerRef.current?.abort();
+    setMessages([]);
+  }, []);
+
+  return {
+    messages,
+    isStreaming,
+    sendMessage,
+    stopGeneration,
+    retryMessage,
+    clearConversation
+  };
+};
@@ -0,0 +1,66 @@
+import { useEffect, useState } from 'react';
+import { useQueryClient, type InfiniteData } from '@tanstack/react-query';
+import {
+  apiService,
+  type Meeting,
+  type MeetingListResponse,
+  type MeetingStatusEvent
+} from '@/services/apiService';
+import { meetingKeys } from '@/hooks/useMeetings';
+
+const applyStatusEvent = (meeting: Meeting, event: MeetingStatusEvent): Meeting =>
+  meeting.id === event.meetingId
+    ? {
+        ...meeting,
+        status: event.status,
+        processingStage: event.stage,
+        processingProgress: event.progress,
+        updatedAt: event.updatedAt
+      }
+    : meeting;
+
+/**
+ * Subscribe to realtime processing updates for the given meetings.
+ *
+ * Each event is patched into the cached meeting lists and details so cards
+ * and pages re-render with the new status. When a meeting finishes, its
+ * queries are invalidated to pick up the generated summary.
+ *
+ * @returns The latest status event received per meeting ID
+ */
+export const useMeetingStatusUpdates = (meetingIds: string[]) => {
+  const queryClient = useQueryClient();
+  const [events, setEvents] = useState<Record<string, MeetingStatusEvent>>({});
+  const subscriptionKey = [...meetingIds].sort().join(',');
+
+  useEffect(() => {
+    if (!subscriptionKey) return;
+
+    return apiService.subscribeToMeetingStatus(subscriptionKey.split(','), (event) => {
+      setEvents(prev => ({ ...prev, [event.meetingId]: event }));
+
+      queryClient.setQueriesData<InfiniteData<MeetingListResponse>>(
+        { queryKey: meetingKeys.lists() },
+        (data) => data && {
+          ...data,
+          pages: data.pages.map(page => ({
+            ...page,
+            meetings: page.meetings.map(meeting => applyStatusEvent(meeting, event))
+          }))
+        }
+      );
+      queryClient.setQueryData<Meeting>(
+        meetingKeys.detail(event.meetingId),
+        (meeting) => meeting && applyStatusEvent(meeting, event)
+      );
+
+      if (event.status !== 'processing') {
+        queryClient.invalidateQueries({ queryKey: meetingKeys.detail(event.meetingId) });
+        queryClient.invalidateQueries({ queryKey: meetingKeys.lists() });
+        queryClient.invalidateQueries({ queryKey: meetingKeys.stats() });
+      }
+    });
+  }, [subscriptionKey, queryClient]);
+
+  return events;
+};
@@ -0,0 +1,74 @@
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiService, ApiError, type MeetingListParams } from '@/services/apiService';
+
+export const MEETINGS_PAGE_SIZE = 12;
+
+/**
+ * React Query keys for meeting data. Keeping them in one place lets
+ * mutations elsewhere invalidate every cached list or a single meeting.
+ */
+export const meetingKeys = {
+  all: ['meetings'] as const,
+  lists: () => [...meetingKeys.all, 'list'] as const,
+  list: (params: Omit<MeetingListParams, 'page'>) => [...meetingKeys.lists(), params] as const,
+  stats: () => [...meetingKeys.all, 'stats'] as const,
+  details: () => [...meetingKeys.all, 'detail'] as const,
+  detail: (meetingId: string) => [...meetingKeys.details(), meetingId] as const,
+};
+
+/**
+ * Infinite, server-paged list of meetings for the dashboard.
+ * Every filter change produces a new query key, so results restart at page 1.
+ */
+export const useMeetingsInfinite = (params: Omit<MeetingListParams, 'page' | 'limit'>) => {
+  const listParams = { ...params, limit: MEETINGS_PAGE_SIZE };
+
+  return useInfiniteQuery({
+    queryKey: meetingKeys.list(listParams),
+    queryFn: ({ pageParam }) => apiService.getMeetings({ ...listParams, page: pageParam }),
+    initialPageParam: 1,
+    getNextPageParam: (lastPage) =>
+      lastPage.page * lastPage.limit < lastPage.total ? lastPage.page + 1 : undefined,
+  });
+};
+
+/**
+ * Dashboard totals across every meeting, independent of the list's filters
+ * and of how many pages have been loaded.
+ */
+export const useMeetingStats = () => {
+  return useQuery({
+    queryKey: meetingKeys.stats(),
+    queryFn: () => apiService.getMeetingStats(),
+  });
+};
+
+/**
+ * Full details for a single meeting. A 404 is not retried, so the
+ * not-found state renders immediately.
+ */
+export const useMeetingDetails = (meetingId: string | undefined) => {
+  return useQuery({
+    queryKey: meetingKeys.detail(meetingId ?? ''),
+    queryFn: () => apiService.getMeetingDetails(meetingId!),
+    enabled: Boolean(meetingId),
+    retry: (failureCount, error) =>
+      !(error instanceof ApiError && error.status === 404) && failureCount < 3,
+  });
+};
+
+/**
+ * Re-run processing for a failed meeting and refresh its cached copies.
+ */
+export const useReprocessMeeting = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (meetingId: string) => apiService.reprocessMeeting(meetingId),
+    onSuccess: (meeting) => {
+      queryClient.setQueryData(meetingKeys.detail(meeting.id), meeting);
+      queryClient.invalidateQueries({ queryKey: meetingKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: meetingKeys.stats() });
+    },
+  });
+};
@@ -0,0 +1,26 @@
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { apiService, type SearchParams } from '@/services/apiService';
+
+export const SEARCH_PAGE_SIZE = 20;
+
+export const searchKeys = {
+  all: ['search'] as const,
+  results: (params: Omit<SearchParams, 'page'>) => [...searchKeys.all, params] as const,
+};
+
+/**
+ * Infinite, server-paged search hits across all meetings.
+ * Nothing is fetched until there is something to search for.
+ */
+export const useMeetingSearch = (params: Omit<SearchParams, 'page' | 'limit'>) => {
+  const searchParams = { ...params, limit: SEARCH_PAGE_SIZE };
+
+  return useInfiniteQuery({
+    queryKey: searchKeys.results(searchParams),
+    queryFn: ({ pageParam }) => apiService.searchMeetings({ ...searchParams, page: pageParam }),
+    initialPageParam: 1,
+    getNextPageParam: (lastPage) =>
+      lastPage.page * lastPage.limit < lastPage.total ? lastPage.page + 1 : undefined,
+    enabled: Boolean(params.q) || Boolean(params.speakers?.length),
+  });
+};
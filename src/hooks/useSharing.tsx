@@ -0,0 +1,81 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiService, ApiError, type MeetingRole } from '@/services/apiService';
+import { meetingKeys } from '@/hooks/useMeetings';
+import { useToast } from '@/hooks/use-toast';
+
+export const sharingKeys = {
+  meeting: (meetingId: string) => [...meetingKeys.detail(meetingId), 'sharing'] as const,
+  link: (token: string) => ['sharedMeeting', token] as const,
+};
+
+/**
+ * Collaborators and share links for a meeting. Only fetched while shown.
+ */
+export const useMeetingSharing = (meetingId: string, enabled: boolean) => {
+  return useQuery({
+    queryKey: sharingKeys.meeting(meetingId),
+    queryFn: () => apiService.getMeetingSharing(meetingId),
+    enabled,
+  });
+};
+
+/**
+ * Invite, update and remove collaborators, and create or revoke links.
+ * Every change refetches the meeting's sharing settings once it lands.
+ */
+export const useSharingMutations = (meetingId: string) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const handlers = (errorTitle: string) => ({
+    onError: (error: Error) => {
+      toast({ title: errorTitle, description: error.message, variant: 'destructive' });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: sharingKeys.meeting(meetingId) });
+    },
+  });
+
+  const addCollaborator = useMutation({
+    mutationFn: ({ email, role }: { email: string; role: MeetingRole }) =>
+      apiService.addCollaborator(meetingId, email, role),
+    ...handlers('Failed to share meeting'),
+  });
+
+  const updateCollaborator = useMutation({
+    mutationFn: ({ email, role }: { email: string; role: MeetingRole }) =>
+      apiService.updateCollaborator(meetingId, email, role),
+    ...handlers('Failed to change access'),
+  });
+
+  const removeCollaborator = useMutation({
+    mutationFn: (email: string) => apiService.removeCollaborator(meetingId, email),
+    ...handlers('Failed to remove access'),
+  });
+
+  const createLink = useMutation({
+    mutationFn: (expiresAt: string | null) => apiService.createShareLink(meetingId, expiresAt),
+    ...handlers('Failed to create link'),
+  });
+
+  const revokeLink = useMutation({
+    mutationFn: (linkId: string) => apiService.revokeShareLink(meetingId, linkId),
+    ...handlers('Failed to revoke link'),
+  });
+
+  return { addCollaborator, updateCollaborator, removeCollaborator, createLink, revokeLink };
+};
+
+/**
+ * A meeting opened through a public share link. Unknown, revoked and
+ * expired links return 404, which is not retried.
+ */
+export const useSharedMeeting = (token: string | undefined) => {
+  return useQuery({
+    queryKey: sharingKeys.link(token ?? ''),
+    queryFn: () => apiService.getSharedMeeting(token!),
+    enabled: Boolean(token),
+    retry: (failureCount, error) =>
+      !(error instanceof ApiError && error.status === 404) && failureCount < 3,
+  });
+};
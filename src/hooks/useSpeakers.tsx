@@ -0,0 +1,84 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiService, type Meeting } from '@/services/apiService';
+import { meetingKeys } from '@/hooks/useMeetings';
+import { useToast } from '@/hooks/use-toast';
+
+export const voiceProfileKeys = {
+  all: ['voiceProfiles'] as const,
+};
+
+/**
+ * Voices enrolled for automatic speaker recognition. Only fetched while shown.
+ */
+export const useVoiceProfiles = (enabled: boolean) => {
+  return useQuery({
+    queryKey: voiceProfileKeys.all,
+    queryFn: () => apiService.getVoiceProfiles(),
+    enabled,
+  });
+};
+
+/**
+ * Map a meeting's diarized voices to participants, and enroll or forget
+ * voices for recognition in later meetings.
+ *
+ * Assignments show in the cached meeting right away and are rolled back if
+ * saving fails. Once settled the meeting is refetched, picking up the
+ * summary the server regenerates with real names.
+ */
+export const useSpeakerMutations = (meetingId: string) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const queryKey = meetingKeys.detail(meetingId);
+
+  const assignSpeaker = useMutation({
+    mutationFn: ({ label, email }: { label: string; email: string | null }) =>
+      apiService.assignSpeaker(meetingId, label, email),
+    onMutate: async ({ label, email }) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<Meeting>(queryKey);
+      queryClient.setQueryData<Meeting>(queryKey, (meeting) => {
+        if (!meeting) return meeting;
+        const others = (meeting.speakers ?? []).filter(speaker => speaker.label !== label);
+        return { ...meeting, speakers: [...others, { label, email: email ?? undefined }] };
+      });
+      return { previous };
+    },
+    onSuccess: (meeting) => queryClient.setQueryData(queryKey, meeting),
+    onError: (error, _assignment, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKey, context.previous);
+      }
+      toast({ title: 'Failed to assign speaker', description: error.message, variant: 'destructive' });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: meetingKeys.lists() });
+    },
+  });
+
+  const enrollVoice = useMutation({
+    mutationFn: ({ label, email }: { label: string; email: string }) =>
+      apiService.enrollVoice(meetingId, label, email),
+    onSuccess: (profile) => {
+      toast({
+        title: 'Voice enrolled',
+        description: `${profile.email} will be recognized automatically in future meetings.`,
+      });
+    },
+    onError: (error) => {
+      toast({ title: 'Failed to enroll voice', description: error.message, variant: 'destructive' });
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: voiceProfileKeys.all }),
+  });
+
+  const deleteVoiceProfile = useMutation({
+    mutationFn: (email: string) => apiService.deleteVoiceProfile(email),
+    onError: (error) => {
+      toast({ title: 'Failed to remove voice', description: error.message, variant: 'destructive' });
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: voiceProfileKeys.all }),
+  });
+
+  return { assignSpeaker, enrollVoice, deleteVoiceProfile };
+};
@@ -0,0 +1,118 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  apiService,
+  type EmailDelivery,
+  type Meeting,
+  type SendSummaryEmailRequest,
+  type SummaryEmailSettings
+} from '@/services/apiService';
+import { meetingKeys } from '@/hooks/useMeetings';
+import { useToast } from '@/hooks/use-toast';
+
+// Opened and bounced states arrive from the mail provider after sending
+const DELIVERY_POLL_INTERVAL = 30000;
+
+// Bounces come back within minutes. Many recipients never register an open
+// (or block the tracking image), so a 'sent' email this old is left as is.
+const DELIVERY_WATCH_WINDOW = 10 * 60 * 1000;
+
+export const summaryEmailKeys = {
+  deliveries: (meetingId: string) => [...meetingKeys.detail(meetingId), 'emailDeliveries'] as const,
+  preview: (meetingId: string, options: Omit<SendSummaryEmailRequest, 'recipients'>) =>
+    [...meetingKeys.detail(meetingId), 'emailPreview', options] as const,
+};
+
+export const DEFAULT_SUMMARY_EMAIL_SETTINGS: SummaryEmailSettings = {
+  autoSend: false,
+  excludedRecipients: [],
+  includeHighlights: true,
+  includeActionItems: true,
+};
+
+const isSettled = (delivery: EmailDelivery) => {
+  if (delivery.status === 'queued') return false;
+  if (delivery.status !== 'sent') return true;
+  const sentAt = Date.parse(delivery.sentAt ?? delivery.updatedAt);
+  return !Number.isFinite(sentAt) || Date.now() - sentAt > DELIVERY_WATCH_WINDOW;
+};
+
+/**
+ * Summary email delivery log. Polls while any email is queued, or was sent
+ * recently enough that a bounce may still come back.
+ */
+export const useEmailDeliveries = (meetingId: string) => {
+  return useQuery({
+    queryKey: summaryEmailKeys.deliveries(meetingId),
+    queryFn: () => apiService.getEmailDeliveries(meetingId),
+    refetchInterval: (query) =>
+      query.state.data?.some(delivery => !isSettled(delivery)) ? DELIVERY_POLL_INTERVAL : false,
+  });
+};
+
+/**
+ * Server-rendered summary email, only fetched while the preview is shown.
+ */
+export const useSummaryEmailPreview = (
+  meetingId: string,
+  options: Omit<SendSummaryEmailRequest, 'recipients'>,
+  enabled: boolean
+) => {
+  return useQuery({
+    queryKey: summaryEmailKeys.preview(meetingId, options),
+    queryFn: () => apiService.previewSummaryEmail(meetingId, options),
+    enabled,
+  });
+};
+
+/**
+ * Save summary email settings and send the summary.
+ *
+ * Settings changes are applied to the cached meeting right away and
+ * rolled back if saving fails.
+ */
+export const useSummaryEmailMutations = (meetingId: string) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const queryKey = meetingKeys.detail(meetingId);
+
+  const updateSettings = useMutation({
+    mutationFn: (settings: Partial<SummaryEmailSettings>) =>
+      apiService.updateSummaryEmailSettings(meetingId, settings),
+    onMutate: async (settings) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<Meeting>(queryKey);
+      queryClient.setQueryData<Meeting>(queryKey, (meeting) => meeting && {
+        ...meeting,
+        summaryEmail: { ...DEFAULT_SUMMARY_EMAIL_SETTINGS, ...meeting.summaryEmail, ...settings }
+      });
+      return { previous };
+    },
+    onSuccess: (summaryEmail) => {
+      queryClient.setQueryData<Meeting>(queryKey, (meeting) => meeting && { ...meeting, summaryEmail });
+    },
+    onError: (error, _settings, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKey, context.previous);
+      }
+      toast({ title: 'Failed to save email settings', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const sendSummary = useMutation({
+    mutationFn: (request: SendSummaryEmailRequest) => apiService.sendSummaryEmail(meetingId, request),
+    onSuccess: (deliveries) => {
+      toast({
+        title: 'Summary sent',
+        description: `Emailed to ${deliveries.length} ${deliveries.length === 1 ? 'participant' : 'participants'}.`,
+      });
+    },
+    onError: (error) => {
+      toast({ title: 'Failed to send summary', description: error.message, variant: 'destructive' });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: summaryEmailKeys.deliveries(meetingId) });
+    },
+  });
+
+  return { updateSettings, sendSummary };
+};
@@ -0,0 +1,73 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiService, type Meeting, type TranscriptEdit } from '@/services/apiService';
+import { meetingKeys } from '@/hooks/useMeetings';
+import { useToast } from '@/hooks/use-toast';
+import { applyTranscriptEdit } from '@/lib/transcriptEdits';
+
+// Nested under the meeting, so invalidating the meeting refreshes its history too
+export const transcriptRevisionKeys = {
+  list: (meetingId: string) => [...meetingKeys.detail(meetingId), 'revisions'] as const,
+};
+
+/**
+ * A meeting's transcript revision history. Only fetched while it is shown.
+ */
+export const useTranscriptRevisions = (meetingId: string, enabled: boolean) => {
+  return useQuery({
+    queryKey: transcriptRevisionKeys.list(meetingId),
+    queryFn: () => apiService.getTranscriptRevisions(meetingId),
+    enabled,
+  });
+};
+
+/**
+ * Save transcript corrections and revert earlier ones.
+ *
+ * Edits are applied to the cached meeting right away and rolled back if
+ * saving fails. Once settled the meeting is refetched, picking up the
+ * summary the server regenerates from the corrected transcript.
+ */
+export const useTranscriptEditing = (meetingId: string) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const queryKey = meetingKeys.detail(meetingId);
+
+  const settle = () => {
+    queryClient.invalidateQueries({ queryKey });
+    queryClient.invalidateQueries({ queryKey: meetingKeys.lists() });
+  };
+
+  const editTranscript = useMutation({
+    mutationFn: (edit: TranscriptEdit) => apiService.editTranscript(meetingId, edit),
+    onMutate: async (edit) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<Meeting>(queryKey);
+      queryClient.setQueryData<Meeting>(queryKey, (meeting) =>
+        meeting && { ...meeting, transcript: applyTranscriptEdit(meeting.transcript ?? [], edit) }
+      );
+      return { previous };
+    },
+    onSuccess: (meeting) => queryClient.setQueryData(queryKey, meeting),
+    onError: (error, _edit, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKey, context.previous);
+      }
+      toast({ title: 'Failed to save transcript edit', description: error.message, variant: 'destructive' });
+    },
+    onSettled: settle,
+  });
+
+  const revertTranscript = useMutation({
+    mutationFn: (revisionId: string) => apiService.revertTranscript(meetingId, revisionId),
+    onSuccess: (meeting) => {
+      queryClient.setQueryData(queryKey, meeting);
+      toast({ title: 'Transcript restored' });
+    },
+    onError: (error) => {
+      toast({ title: 'Failed to revert transcript', description: error.message, variant: 'destructive' });
+    },
+    onSettled: settle,
+  });
+
+  return { editTranscript, revertTranscript };
+};
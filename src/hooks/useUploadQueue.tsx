@@ -0,0 +1,233 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { apiService, type MeetingStatusEvent, type ProcessingStage } from '@/services/apiService';
+import { useMeetingStatusUpdates } from '@/hooks/useMeetingStatus';
+import { useToast } from '@/hooks/use-toast';
+import { MediaProbeError, prepareRecording, type PreparedRecording } from '@/services/mediaService';
+
+// Uploads running at once; the rest wait in the queue
+export const MAX_CONCURRENT_UPLOADS = 2;
+
+export type UploadQueueStatus =
+  | 'pending' // waiting for the user to review its details
+  | 'queued'
+  | 'preparing' // being checked, and for videos, having its audio extracted
+  | 'uploading'
+  | 'processing'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+export interface UploadQueueItem {
+  id: string;
+  file: File;
+  title: string;
+  date?: Date;
+  participants: string[];
+  autoSendSummary: boolean;
+  calendarEventId?: string;
+  status: UploadQueueStatus;
+  progress: number; // 0-100, of preparing or uploading
+  prepared?: PreparedRecording; // kept so a retried upload can resume the same file
+  processingStage?: ProcessingStage;
+  meetingId?: string;
+  error?: string;
+  rejected?: boolean; // failed the media checks, so retrying won't help
+}
+
+export type UploadQueueItemDetails = Pick<
+  UploadQueueItem,
+  'title' | 'date' | 'participants' | 'autoSendSummary' | 'calendarEventId'
+>;
+
+// "team_sync-2024-01-15.mp3" -> "team sync 2024 01 15"
+const titleFromFileName = (fileName: string) =>
+  fileName.replace(/\.[^/.]+$/, '').replace(/[_-]/g, ' ');
+
+const isActive = (status: UploadQueueStatus) => status === 'preparing' || status === 'uploading';
+
+// Dropping the same file twice shouldn't queue it twice
+const getItemId = (file: File) => `${file.name}-${file.size}-${file.lastModified}`;
+
+/**
+ * Queue of recordings to upload, each with its own meeting details.
+ *
+ * Files start as 'pending' so their details can be edited. Once queued,
+ * `MAX_CONCURRENT_UPLOADS` at a time are checked (see `prepareRecording`)
+ * and uploaded. Uploads are resumable,
+ * so retrying a cancelled or failed upload picks up where it stopped.
+ * Uploads still running when the component unmounts are cancelled.
+ */
+export const useUploadQueue = () => {
+  const { toast } = useToast();
+  const [items, setItems] = useState<UploadQueueItem[]>([]);
+  const controllers = useRef(new Map<string, AbortController>());
+  // Final status events already applied, so a retried meeting doesn't fail again on a stale event
+  const settledEvents = useRef(new WeakSet<MeetingStatusEvent>());
+
+  const patchItem = useCallback((id: string, changes: Partial<UploadQueueItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)));
+  }, []);
+
+  const startUpload = useCallback((item: UploadQueueItem) => {
+    const controller = new AbortController();
+    controllers.current.set(item.id, controller);
+    patchItem(item.id, { status: item.prepared ? 'uploading' : 'preparing', progress: 0, error: undefined });
+
+    const prepare = async () => {
+      if (item.prepared) return item.prepared;
+      const prepared = await prepareRecording(item.file, {
+        onProgress: (progress) => patchItem(item.id, { progress }),
+        signal: controller.signal,
+      });
+      patchItem(item.id, { status: 'uploading', progress: 0, prepared });
+      return prepared;
+    };
+
+    prepare()
+      .then((prepared) => apiService.processMeeting(
+        {
+          title: item.title,
+          date: (item.date ?? new Date()).toISOString(),
+          participants: item.participants,
+          recordingBlob: prepared.file,
+          autoSendSummary: item.participants.length > 0 && item.autoSendSummary,
+        },
+        (progress) => patchItem(item.id, { progress }),
+        controller.signal
+      ))
+      .then((result) => {
+        patchItem(item.id, {
+          // Without an ID there's nothing to follow; the dashboard shows it once ready
+          status: result.meeting?.id ? 'processing' : 'completed',
+          progress: 100,
+          meetingId: result.meeting?.id,
+        });
+      })
+      .catch((error) => {
+        if (controller.signal.aborted) return; // cancel() already updated the item
+
+        console.error('Upload error:', error);
+        const message = error instanceof Error ? error.message : 'Failed to upload the meeting. Please try again.';
+        patchItem(item.id, { status: 'failed', error: message, rejected: error instanceof MediaProbeError });
+        toast({
+          title: error instanceof MediaProbeError ? 'Recording Rejected' : 'Upload Failed',
+          description: `"${item.title}": ${message}`,
+          variant: 'destructive',
+        });
+      })
+      .finally(() => {
+        if (controllers.current.get(item.id) === controller) controllers.current.delete(item.id);
+      });
+  }, [patchItem, toast]);
+
+  // Start queued uploads whenever a slot frees up
+  useEffect(() => {
+    const active = items.filter(item => isActive(item.status)).length;
+    items
+      .filter(item => item.status === 'queued' && !controllers.current.has(item.id))
+      .slice(0, Math.max(0, MAX_CONCURRENT_UPLOADS - active))
+      .forEach(startUpload);
+  }, [items, startUpload]);
+
+  // Cancel whatever is still uploading when leaving the page
+  useEffect(() => {
+    const active = controllers.current;
+    return () => active.forEach(controller => controller.abort());
+  }, []);
+
+  // Follow each accepted upload through the backend pipeline
+  const statusEvents = useMeetingStatusUpdates(
+    items.filter(item => item.status === 'processing' && item.meetingId).map(item => item.meetingId!)
+  );
+
+  useEffect(() => {
+    setItems(prev => prev.map(item => {
+      const event = item.meetingId ? statusEvents[item.meetingId] : undefined;
+      if (!event || item.status !== 'processing' || settledEvents.current.has(event)) return item;
+
+      if (event.status === 'processing') {
+        return event.stage === item.processingStage ? item : { ...item, processingStage: event.stage };
+      }
+      settledEvents.current.add(event);
+      return event.status === 'completed'
+        ? { ...item, status: 'completed', processingStage: 'completed' }
+        : { ...item, status: 'failed', error: event.error || 'Processing failed. Please try again.' };
+    }));
+  }, [statusEvents]);
+
+  const addFiles = useCallback((files: File[]) => {
+    setItems(prev => [
+      ...prev,
+      ...files
+        .filter(file => !prev.some(item => item.id === getItemId(file)))
+        .map((file): UploadQueueItem => ({
+          id: getItemId(file),
+          file,
+          title: titleFromFileName(file.name),
+          participants: [],
+          autoSendSummary: true,
+          status: 'pending',
+          progress: 0,
+        })),
+    ]);
+  }, []);
+
+  const updateDetails = useCallback((id: string, details: Partial<UploadQueueItemDetails>) => {
+    patchItem(id, details);
+  }, [patchItem]);
+
+  const abortUpload = useCallback((id: string) => {
+    controllers.current.get(id)?.abort();
+    controllers.current.delete(id);
+  }, []);
+
+  const removeItem = useCallback((id: string) => {
+    abortUpload(id);
+    setItems(prev => prev.filter(item => item.id !== id));
+  }, [abortUpload]);
+
+  /**
+   * Queue every pending file that has a title
+   */
+  const startAll = useCallback(() => {
+    setItems(prev => prev.map(item =>
+      item.status === 'pending' && item.title.trim() ? { ...item, status: 'queued' } : item
+    ));
+  }, []);
+
+  const cancel = useCallback((id: string) => {
+    abortUpload(id);
+    patchItem(id, { status: 'cancelled', progress: 0 });
+  }, [abortUpload, patchItem]);
+
+  /**
+   * Re-queue a failed or cancelled upload. When the upload itself went
+   * through and only processing failed, processing is re-run instead.
+   */
+  const retry = useCallback(async (id: string) => {
+    const item = items.find(candidate => candidate.id === id);
+    if (!item) return;
+
+    if (!item.meetingId) {
+      patchItem(id, { status: 'queued', error: undefined });
+      return;
+    }
+
+    try {
+      await apiService.reprocessMeeting(item.meetingId);
+      patchItem(id, { status: 'processing', processingStage: 'queued', error: undefined });
+    } catch (error) {
+      toast({
+        title: 'Retry Failed',
+        description: error instanceof Error ? error.message : "We couldn't restart processing.",
+        variant: 'destructive',
+      });
+    }
+  }, [items, patchItem, toast]);
+
+  const clearFinished = useCallback(() => {
+    setItems(prev => prev.filter(item => item.status !== 'completed' && item.status !== 'cancelled'));
+  }, []);
+
+  return { items, addFiles, updateDetails, removeItem, startAll, cancel, retry, clearFinished };
+};
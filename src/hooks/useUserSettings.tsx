@@ -0,0 +1,18 @@
+import { useQuery } from '@tanstack/react-query';
+import { apiService } from '@/services/apiService';
+
+export const userSettingsKeys = {
+  all: ['userSettings'] as const,
+};
+
+/**
+ * The signed-in user's settings. They rarely change, so a cached copy is
+ * fine for reading preferences such as the recording quality.
+ */
+export const useUserSettings = () => {
+  return useQuery({
+    queryKey: userSettingsKeys.all,
+    queryFn: () => apiService.getUserSettings(),
+    staleTime: 5 * 60 * 1000,
+  });
+};
@@ -0,0 +1,93 @@
+import { useEffect, useMemo, useState } from 'react';
+
+// Decoding expands a recording to raw 32-bit samples (about 11 MB per minute
+// at 48 kHz stereo), so only short recordings are decoded in the browser
+const MAX_DECODE_SECONDS = 10 * 60;
+const MAX_DECODE_BYTES = 50 * 1024 * 1024;
+
+interface UseWaveformOptions {
+  peaks?: number[]; // precomputed by the server; always preferred
+  duration?: number; // seconds, once known; nothing is decoded before that
+  barCount?: number;
+}
+
+/**
+ * Reduce peak values (0-1) to `barCount` bars, keeping the loudest of each group
+ */
+const resamplePeaks = (peaks: number[], barCount: number): number[] => {
+  if (peaks.length <= barCount) return peaks;
+  const perBar = peaks.length / barCount;
+  return Array.from({ length: barCount }, (_, bar) =>
+    Math.max(...peaks.slice(Math.floor(bar * perBar), Math.floor((bar + 1) * perBar)))
+  );
+};
+
+/**
+ * Normalized peak values (0-1) for drawing a recording's waveform.
+ *
+ * Uses the server's precomputed peaks when the meeting has them. Otherwise
+ * short recordings are downloaded and decoded here; longer ones get no
+ * waveform, since decoding them could run a phone out of memory. Returns
+ * null while loading, when skipped, or if the recording can't be fetched or
+ * decoded (e.g. cross-origin without CORS).
+ */
+export const useWaveform = (
+  url: string | undefined,
+  { peaks, duration, barCount = 120 }: UseWaveformOptions = {}
+): number[] | null => {
+  const [decodedPeaks, setDecodedPeaks] = useState<number[] | null>(null);
+  const precomputed = useMemo(
+    () => (peaks && peaks.length > 0 ? resamplePeaks(peaks, barCount) : null),
+    [peaks, barCount]
+  );
+  const shouldDecode = !precomputed && !!duration && duration <= MAX_DECODE_SECONDS;
+
+  useEffect(() => {
+    setDecodedPeaks(null);
+    if (!url || !shouldDecode || typeof AudioContext === 'undefined') return;
+
+    const controller = new AbortController();
+    const audioContext = new AudioContext();
+
+    const loadPeaks = async () => {
+      try {
+        const response = await fetch(url, { signal: controller.signal });
+        const size = Number(response.headers.get('Content-Length'));
+        if (!size || size > MAX_DECODE_BYTES) {
+          controller.abort();
+          return;
+        }
+
+        const audioBuffer = await audioContext.decodeAudioData(await response.arrayBuffer());
+        const samples = audioBuffer.getChannelData(0);
+        const samplesPerBar = Math.max(1, Math.floor(samples.length / barCount));
+
+        const bars: number[] = [];
+        for (let bar = 0; bar < barCount; bar++) {
+          let peak = 0;
+          const start = bar * samplesPerBar;
+          for (let i = start; i < start + samplesPerBar && i < samples.length; i++) {
+            peak = Math.max(peak, Math.abs(samples[i]));
+          }
+          bars.push(peak);
+        }
+
+        const max = Math.max(...bars) || 1;
+        setDecodedPeaks(bars.map(value => value / max));
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.warn('Failed to build waveform:', error);
+        }
+      }
+    };
+
+    loadPeaks();
+
+    return () => {
+      controller.abort();
+      audioContext.close();
+    };
+  }, [url, shouldDecode, barCount]);
+
+  return precomputed ?? decodedPeaks;
+};
@@ -0,0 +1,51 @@
+/**
+ * Mixes several audio streams into one recordable stream with a Web Audio
+ * graph, each input through its own gain node:
+ *
+ *   microphone ──> gain ──┐
+ *                         ├──> MediaStreamAudioDestinationNode ──> stream
+ *   tab audio  ──> gain ──┘
+ */
+
+export interface AudioMixInput {
+  id: string;
+  stream: MediaStream;
+  gain?: number; // 0-2, 1 leaves the level unchanged
+}
+
+export interface AudioMix {
+  stream: MediaStream;
+  setGain: (id: string, gain: number) => void;
+  close: () => void; // disconnects the graph; input tracks are left running
+}
+
+export function createAudioMix(inputs: AudioMixInput[]): AudioMix {
+  const audioContext = new AudioContext();
+  const destination = audioContext.createMediaStreamDestination();
+  const gains = new Map<string, GainNode>();
+  const sources: MediaStreamAudioSourceNode[] = [];
+
+  inputs.forEach(({ id, stream, gain = 1 }) => {
+    if (stream.getAudioTracks().length === 0) return;
+    const source = audioContext.createMediaStreamSource(stream);
+    const gainNode = audioContext.createGain();
+    gainNode.gain.value = gain;
+    source.connect(gainNode).connect(destination);
+    sources.push(source);
+    gains.set(id, gainNode);
+  });
+
+  return {
+    stream: destination.stream,
+    setGain(id, gain) {
+      const gainNode = gains.get(id);
+      // Ramp briefly so changing the level mid-recording doesn't click
+      gainNode?.gain.setTargetAtTime(gain, audioContext.currentTime, 0.02);
+    },
+    close() {
+      sources.forEach(source => source.disconnect());
+      gains.forEach(gainNode => gainNode.disconnect());
+      audioContext.close();
+    },
+  };
+}
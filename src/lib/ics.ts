@@ -0,0 +1,281 @@
+/**
+ * Minimal iCalendar (RFC 5545) parsing for calendar imports: VEVENTs with
+ * their attendees, plus DAILY/WEEKLY/MONTHLY/YEARLY recurrence so that
+ * recurring meetings show up on the days they happen. Rules we can't expand
+ * (BYMONTHDAY, BYSETPOS, ...) are dropped, leaving just the first occurrence.
+ *
+ * Times with a TZID are read as local time; we don't ship a timezone
+ * database, and imports almost always come from the user's own calendar.
+ */
+
+import {
+  addDays,
+  differenceInCalendarDays,
+  differenceInCalendarMonths,
+  differenceInCalendarWeeks,
+  differenceInCalendarYears,
+  getDayOfYear,
+  getDaysInMonth,
+  getDaysInYear,
+  type Day
+} from "date-fns";
+
+export interface RecurrenceRule {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+  interval: number;
+  count?: number;
+  until?: Date;
+  byDay?: RecurrenceWeekday[];
+  byMonth?: number[]; // 0 (January) - 11 (December)
+  weekStart: Day; // WKST, 0 (Sunday) - 6 (Saturday); decides which week a day falls in for INTERVAL > 1
+}
+
+// BYDAY entry: "TU" is every Tuesday, "2TU" the second and "-1TU" the last
+// Tuesday of the month (MONTHLY, or YEARLY with BYMONTH) or of the year
+export interface RecurrenceWeekday {
+  weekday: number; // 0 (Sunday) - 6 (Saturday)
+  ordinal?: number;
+}
+
+export interface IcsEvent {
+  uid: string;
+  summary: string;
+  start: Date;
+  end?: Date;
+  allDay: boolean;
+  location?: string;
+  attendees: string[]; // emails, organizer first
+  rrule?: RecurrenceRule;
+  exdates: number[]; // epoch ms of cancelled occurrences
+  recurrenceId?: number; // set on a changed occurrence of a recurring event
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// RRULE parts we can expand; rules using any other (BYMONTHDAY, BYSETPOS,
+// ...) are dropped rather than expanded into the wrong days
+const SUPPORTED_RULE_PARTS = ['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYDAY', 'BYMONTH', 'WKST'];
+
+// Recurring events are expanded day by day, for at most this many days
+const MAX_EXPANSION_DAYS = 20 * 366;
+
+// "NAME;PARAM=a;PARAM2="x:y":value" — colons inside quoted params don't end the name
+const parseProperty = (line: string): IcsProperty | null => {
+  let inQuotes = false;
+  let separator = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      separator = i;
+      break;
+    }
+  }
+  if (separator === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, separator).split(';');
+  const params: Record<string, string> = {};
+  rawParams.forEach(param => {
+    const [key, ...rest] = param.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  });
+  return { name: name.toUpperCase(), params, value: line.slice(separator + 1) };
+};
+
+const unescapeText = (value: string) =>
+  value.replace(/\\n/gi, '\n').replace(/\\([,;\\])/g, '$1').trim();
+
+// 20240115T100000Z (UTC), 20240115T100000 (local) or 20240115 (all day)
+const parseDateValue = (value: string): Date | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, year, month, day, hours = '0', minutes = '0', seconds = '0', utc] = match;
+  const parts = [Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds)] as const;
+  return utc ? new Date(Date.UTC(...parts)) : new Date(...parts);
+};
+
+const parseEmail = (property: IcsProperty): string | null => {
+  const email = property.params.EMAIL ?? property.value.replace(/^mailto:/i, '');
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) ? email.toLowerCase() : null;
+};
+
+const parseWeekday = (value: string): RecurrenceWeekday | null => {
+  const match = value.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+  if (!match) return null;
+  const ordinal = match[1] ? Number(match[1]) : undefined;
+  if (ordinal === 0) return null;
+  return { weekday: WEEKDAYS.indexOf(match[2]), ordinal };
+};
+
+const parseRecurrenceRule = (value: string): RecurrenceRule | undefined => {
+  const parts = Object.fromEntries(value.split(';').map(part => part.split('=') as [string, string]));
+  if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(parts.FREQ)) return undefined;
+  if (Object.keys(parts).some(part => !SUPPORTED_RULE_PARTS.includes(part))) return undefined;
+
+  const byDay = parts.BYDAY?.split(',').map(parseWeekday);
+  const byMonth = parts.BYMONTH?.split(',').map(month => Number(month) - 1);
+  const weekStart = WEEKDAYS.indexOf(parts.WKST ?? 'MO');
+  if (byDay?.some(day => !day) || byMonth?.some(month => !(month >= 0 && month <= 11)) || weekStart < 0) {
+    return undefined;
+  }
+
+  return {
+    freq: parts.FREQ as RecurrenceRule['freq'],
+    interval: Math.max(Number(parts.INTERVAL) || 1, 1),
+    count: parts.COUNT ? Number(parts.COUNT) : undefined,
+    until: parts.UNTIL ? parseDateValue(parts.UNTIL) ?? undefined : undefined,
+    byDay,
+    byMonth,
+    weekStart: weekStart as Day,
+  };
+};
+
+/**
+ * Parse the VEVENTs of an .ics file. Malformed events are skipped.
+ */
+export function parseIcs(text: string): IcsEvent[] {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: IcsEvent[] = [];
+  let current: Partial<IcsEvent> | null = null;
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      current = { attendees: [], exdates: [], allDay: false };
+      continue;
+    }
+    if (line === 'END:VEVENT') {
+      if (current?.start) {
+        events.push({
+          uid: current.uid ?? `${current.start.getTime()}-${events.length}`,
+          summary: current.summary ?? 'Untitled event',
+          ...current,
+        } as IcsEvent);
+      }
+      current = null;
+      continue;
+    }
+    if (!current) continue;
+
+    const property = parseProperty(line);
+    if (!property) continue;
+
+    switch (property.name) {
+      case 'UID':
+        current.uid = property.value;
+        break;
+      case 'SUMMARY':
+        current.summary = unescapeText(property.value);
+        break;
+      case 'LOCATION':
+        current.location = unescapeText(property.value) || undefined;
+        break;
+      case 'DTSTART':
+        current.start = parseDateValue(property.value) ?? undefined;
+        current.allDay = property.params.VALUE === 'DATE' || /^\d{8}$/.test(property.value);
+        break;
+      case 'DTEND':
+        current.end = parseDateValue(property.value) ?? undefined;
+        break;
+      case 'ORGANIZER':
+      case 'ATTENDEE': {
+        const email = parseEmail(property);
+        if (email && !current.attendees.includes(email)) {
+          if (property.name === 'ORGANIZER') current.attendees.unshift(email);
+          else current.attendees.push(email);
+        }
+        break;
+      }
+      case 'RRULE':
+        current.rrule = parseRecurrenceRule(property.value);
+        break;
+      case 'EXDATE':
+        property.value.split(',').forEach(value => {
+          const date = parseDateValue(value);
+          if (date) current.exdates.push(date.getTime());
+        });
+        break;
+      case 'RECURRENCE-ID':
+        current.recurrenceId = parseDateValue(property.value)?.getTime();
+        break;
+    }
+  }
+
+  return events;
+}
+
+// Whether `day` falls on the weekday, and for an ordinal the nth (or nth
+// from last) such weekday of its month or year
+const matchesWeekday = ({ weekday, ordinal }: RecurrenceWeekday, day: Date, period: 'month' | 'year'): boolean => {
+  if (day.getDay() !== weekday) return false;
+  if (ordinal === undefined) return true;
+
+  const position = period === 'month' ? day.getDate() : getDayOfYear(day);
+  const length = period === 'month' ? getDaysInMonth(day) : getDaysInYear(day);
+  return ordinal > 0
+    ? Math.ceil(position / 7) === ordinal
+    : Math.floor((length - position) / 7) + 1 === -ordinal;
+};
+
+const matchesRule = (rule: RecurrenceRule, start: Date, day: Date): boolean => {
+  if (rule.byMonth && !rule.byMonth.includes(day.getMonth())) return false;
+
+  switch (rule.freq) {
+    case 'DAILY':
+      return differenceInCalendarDays(day, start) % rule.interval === 0 &&
+        (!rule.byDay || rule.byDay.some(({ weekday }) => weekday === day.getDay()));
+    case 'WEEKLY':
+      return differenceInCalendarWeeks(day, start, { weekStartsOn: rule.weekStart }) % rule.interval === 0 &&
+        (rule.byDay?.map(({ weekday }) => weekday) ?? [start.getDay()]).includes(day.getDay());
+    case 'MONTHLY':
+      return differenceInCalendarMonths(day, start) % rule.interval === 0 && (rule.byDay
+        ? rule.byDay.some(weekday => matchesWeekday(weekday, day, 'month'))
+        : day.getDate() === start.getDate());
+    case 'YEARLY':
+      if (differenceInCalendarYears(day, start) % rule.interval !== 0) return false;
+      if (rule.byDay) {
+        return rule.byDay.some(weekday => matchesWeekday(weekday, day, rule.byMonth ? 'month' : 'year'));
+      }
+      return (rule.byMonth ?? [start.getMonth()]).includes(day.getMonth()) && day.getDate() === start.getDate();
+  }
+};
+
+/**
+ * Occurrences of an event that start within [rangeStart, rangeEnd).
+ * Changed occurrences (RECURRENCE-ID) are their own events in `parseIcs`
+ * output, so pass their times in `exdates` of the master to avoid duplicates.
+ */
+export function expandOccurrences(event: IcsEvent, rangeStart: Date, rangeEnd: Date): Array<{ start: Date; end?: Date }> {
+  const duration = event.end ? event.end.getTime() - event.start.getTime() : undefined;
+  const occurrence = (start: Date) => ({
+    start,
+    end: duration !== undefined ? new Date(start.getTime() + duration) : undefined,
+  });
+
+  if (!event.rrule) {
+    return event.start >= rangeStart && event.start < rangeEnd ? [occurrence(event.start)] : [];
+  }
+
+  const results: Array<{ start: Date; end?: Date }> = [];
+  let count = 0;
+  // Without a COUNT there's nothing to tally, so jump straight to the range
+  const firstOffset = event.rrule.count === undefined
+    ? Math.max(differenceInCalendarDays(rangeStart, event.start) - 1, 0)
+    : 0;
+  for (let offset = firstOffset; offset < firstOffset + MAX_EXPANSION_DAYS; offset++) {
+    const day = addDays(event.start, offset); // keeps the local time of day across DST changes
+    if (day >= rangeEnd || (event.rrule.until && day > event.rrule.until)) break;
+    if (!matchesRule(event.rrule, event.start, day)) continue;
+
+    count++;
+    if (event.rrule.count !== undefined && count > event.rrule.count) break;
+    if (day >= rangeStart && !event.exdates.includes(day.getTime())) {
+      results.push(occurrence(day));
+    }
+  }
+  return results;
+}
@@ -0,0 +1,62 @@
+/**
+ * Formatting helpers shared by the views that render `Meeting` objects.
+ */
+
+import type { ProcessingStage } from "@/services/apiService";
+
+/**
+ * Format a duration in seconds as a compact label, e.g. "1h 45m" or "45m".
+ */
+export function formatDuration(seconds: number): string {
+  const totalMinutes = Math.round(seconds / 60);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  if (hours === 0) return `${minutes}m`;
+  return minutes === 0 ? `${hours}h` : `${hours}h ${minutes}m`;
+}
+
+/**
+ * Parse an "HH:MM:SS" (or "MM:SS") transcript timestamp into seconds.
+ */
+export function parseTimestamp(timestamp: string): number {
+  return timestamp
+    .split(':')
+    .map(Number)
+    .reduce((total, part) => total * 60 + (Number.isFinite(part) ? part : 0), 0);
+}
+
+/**
+ * Format a recording offset in seconds as an "HH:MM:SS" timestamp.
+ */
+export function formatTimestamp(seconds: number): string {
+  const whole = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(whole / 3600);
+  const minutes = Math.floor((whole % 3600) / 60);
+  const secs = whole % 60;
+  return [hours, minutes, secs].map(part => part.toString().padStart(2, '0')).join(':');
+}
+
+/**
+ * Derive a display name from a participant email address,
+ * e.g. "sarah.johnson@company.com" -> "Sarah Johnson".
+ */
+export function participantName(email: string): string {
+  const localPart = email.split('@')[0] ?? email;
+  return localPart
+    .split(/[._-]+/)
+    .filter(Boolean)
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join(' ') || email;
+}
+
+/**
+ * Human-readable labels for backend processing stages.
+ */
+export const PROCESSING_STAGE_LABELS: Record<ProcessingStage, string> = {
+  queued: 'Queued',
+  transcribing: 'Transcribing',
+  summarizing: 'Summarizing',
+  extracting_action_items: 'Extracting action items',
+  completed: 'Completed',
+  failed: 'Failed',
+};
@@ -0,0 +1,70 @@
+/**
+ * Container and codec choices for in-browser recordings, and how the
+ * `audioQuality` preference maps onto them.
+ */
+
+import type { UserSettings } from "@/services/apiService";
+
+export type AudioQuality = UserSettings['preferences']['audioQuality'];
+
+export interface RecordingFormat {
+  mimeType: string;
+  extension: string;
+  label: string;
+}
+
+export interface AudioQualityPreset {
+  audioBitsPerSecond: number;
+  sampleRate: number; // asked of the microphone; browsers may not honor it
+}
+
+// In order of preference. Chrome and Firefox record Opus; Safari only records MP4/AAC.
+const RECORDING_FORMATS: RecordingFormat[] = [
+  { mimeType: 'audio/webm;codecs=opus', extension: 'webm', label: 'Audio (WebM, Opus)' },
+  { mimeType: 'audio/ogg;codecs=opus', extension: 'ogg', label: 'Audio (Ogg, Opus)' },
+  { mimeType: 'audio/mp4;codecs=mp4a.40.2', extension: 'm4a', label: 'Audio (MP4, AAC)' },
+  { mimeType: 'audio/mp4', extension: 'm4a', label: 'Audio (MP4)' },
+  { mimeType: 'audio/webm', extension: 'webm', label: 'Audio (WebM)' },
+];
+
+// Speech stays intelligible well below music bitrates
+export const AUDIO_QUALITY_PRESETS: Record<AudioQuality, AudioQualityPreset> = {
+  low: { audioBitsPerSecond: 24000, sampleRate: 16000 },
+  medium: { audioBitsPerSecond: 64000, sampleRate: 32000 },
+  high: { audioBitsPerSecond: 128000, sampleRate: 48000 },
+};
+
+export const DEFAULT_AUDIO_QUALITY: AudioQuality = 'medium';
+
+/**
+ * The most preferred format this browser can record, or null if it can't
+ * say (the recorder then picks its own default).
+ */
+export function negotiateRecordingFormat(): RecordingFormat | null {
+  if (typeof MediaRecorder === 'undefined' || typeof MediaRecorder.isTypeSupported !== 'function') {
+    return null;
+  }
+  return RECORDING_FORMATS.find(format => MediaRecorder.isTypeSupported(format.mimeType)) ?? null;
+}
+
+/**
+ * Describe a recorded MIME type, e.g. a Blob's `type`. Codec parameters are
+ * matched when known and otherwise ignored.
+ */
+export function describeRecordingFormat(mimeType: string): RecordingFormat {
+  const normalized = mimeType.replace(/\s+/g, '').toLowerCase();
+  const container = normalized.split(';')[0];
+  return RECORDING_FORMATS.find(format => format.mimeType === normalized)
+    ?? RECORDING_FORMATS.find(format => format.mimeType === container)
+    ?? { mimeType, extension: container.split('/')[1] || 'webm', label: `Audio (${container || 'unknown format'})` };
+}
+
+/**
+ * Wrap a recording in a File named after the meeting, with the extension
+ * matching what was actually recorded.
+ */
+export function toRecordingFile(blob: Blob, title: string): File {
+  const baseName = title.trim().replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, '-') || 'recording';
+  const { extension } = describeRecordingFormat(blob.type);
+  return new File([blob], `${baseName}.${extension}`, { type: blob.type });
+}
@@ -0,0 +1,70 @@
+/**
+ * Parsing and highlighting for the meeting search syntax, e.g.
+ * `speaker:"Mike Chen" "quarterly budget" review`.
+ */
+
+import type { SearchParams } from "@/services/apiService";
+
+export interface ParsedSearchQuery {
+  terms: string[]; // single words, matched anywhere
+  phrases: string[]; // quoted text, matched exactly
+  speakers: string[]; // from speaker:name or speaker:"Full Name"
+}
+
+// speaker:"Full Name" | speaker:name | "a phrase" | word
+const TOKEN_PATTERN = /speaker:(?:"([^"]*)"|(\S+))|"([^"]*)"|(\S+)/gi;
+
+/**
+ * Split raw search input into free-text terms, exact phrases and speaker filters.
+ * An unterminated quote is treated as plain words.
+ */
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = { terms: [], phrases: [], speakers: [] };
+
+  for (const [, quotedSpeaker, speaker, phrase, word] of input.matchAll(TOKEN_PATTERN)) {
+    const speakerName = (quotedSpeaker ?? speaker)?.trim();
+    if (speakerName) {
+      parsed.speakers.push(speakerName);
+    } else if (phrase?.trim()) {
+      parsed.phrases.push(phrase.trim());
+    } else if (word) {
+      parsed.terms.push(word.replace(/"/g, ''));
+    }
+  }
+
+  parsed.terms = parsed.terms.filter(Boolean);
+  return parsed;
+}
+
+/**
+ * Turn a parsed query back into search API parameters.
+ */
+export function toSearchParams(query: ParsedSearchQuery): Omit<SearchParams, 'page' | 'limit'> {
+  return {
+    q: [...query.phrases.map(phrase => `"${phrase}"`), ...query.terms].join(' '),
+    speakers: query.speakers.length > 0 ? query.speakers : undefined,
+  };
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Split text into alternating plain and matched parts for rendering,
+ * matching every term and phrase case-insensitively.
+ */
+export function splitHighlights(
+  text: string,
+  query: ParsedSearchQuery
+): Array<{ text: string; match: boolean }> {
+  const needles = [...query.phrases, ...query.terms]
+    .sort((a, b) => b.length - a.length) // prefer the longest overlapping match
+    .map(escapeRegExp);
+  if (needles.length === 0) return [{ text, match: false }];
+
+  const pattern = new RegExp(`(${needles.join('|')})`, 'gi');
+  // With a capturing group, split() puts the matches at the odd indexes
+  return text
+    .split(pattern)
+    .map((part, index) => ({ text: part, match: index % 2 === 1 }))
+    .filter(part => part.text.length > 0);
+}
@@ -0,0 +1,51 @@
+/**
+ * Per-speaker talk time and word counts, worked out from a transcript.
+ */
+
+import type { TranscriptSegment } from "@/services/apiService";
+import { formatDuration } from "@/lib/meetingFormat";
+
+export interface SpeakerStats {
+  label: string; // diarized voice, which speaker assignments refer to
+  speaker: string; // display name in the transcript
+  talkTime: number; // seconds
+  wordCount: number;
+  share: number; // 0-1 of all talk time
+}
+
+/**
+ * The diarized voice a segment belongs to. Transcripts from before renames
+ * kept it only have the display name.
+ */
+export const voiceLabel = (segment: TranscriptSegment): string => segment.speakerLabel ?? segment.speaker;
+
+/**
+ * Talk time and word counts for every voice, most talkative first. Voices
+ * renamed to the same name are still counted separately.
+ * Segments without an end time run until the next segment starts, or until
+ * `duration` for the last one.
+ */
+export function computeSpeakerStats(transcript: TranscriptSegment[], duration?: number): SpeakerStats[] {
+  const bySpeaker = new Map<string, SpeakerStats>();
+
+  transcript.forEach((segment, index) => {
+    const end = segment.endTime ?? transcript[index + 1]?.startTime ?? duration ?? segment.startTime;
+    const label = voiceLabel(segment);
+    const stats = bySpeaker.get(label) ?? { label, speaker: segment.speaker, talkTime: 0, wordCount: 0, share: 0 };
+    stats.talkTime += Math.max(0, end - segment.startTime);
+    stats.wordCount += segment.text.split(/\s+/).filter(Boolean).length;
+    bySpeaker.set(label, stats);
+  });
+
+  const totalTalkTime = Array.from(bySpeaker.values()).reduce((total, stats) => total + stats.talkTime, 0);
+  return Array.from(bySpeaker.values())
+    .map(stats => ({ ...stats, share: totalTalkTime > 0 ? stats.talkTime / totalTalkTime : 0 }))
+    .sort((a, b) => b.talkTime - a.talkTime);
+}
+
+/**
+ * Format talk time compactly, keeping seconds for brief contributions.
+ */
+export function formatTalkTime(seconds: number): string {
+  return seconds < 60 ? `${Math.round(seconds)}s` : formatDuration(seconds);
+}
@@ -0,0 +1,92 @@
+/**
+ * Local application of transcript edits, used to show a correction
+ * immediately while the server saves it.
+ */
+
+import type { TranscriptEdit, TranscriptSegment } from "@/services/apiService";
+import { formatTimestamp } from "@/lib/meetingFormat";
+import { voiceLabel } from "@/lib/speakerStats";
+
+/**
+ * Estimate when the words at a character offset were spoken, assuming
+ * speech is spread evenly across the segment.
+ */
+export function estimateSplitTime(segment: TranscriptSegment, next: TranscriptSegment | undefined, offset: number): number {
+  const end = segment.endTime ?? next?.startTime;
+  if (end === undefined || segment.text.length === 0) return segment.startTime;
+  const fraction = offset / segment.text.length;
+  return Math.round((segment.startTime + (end - segment.startTime) * fraction) * 10) / 10;
+}
+
+/**
+ * Return a new transcript with the edit applied. Edits that no longer
+ * match the transcript (e.g. a segment that was merged away) are ignored.
+ */
+export function applyTranscriptEdit(transcript: TranscriptSegment[], edit: TranscriptEdit): TranscriptSegment[] {
+  switch (edit.type) {
+    case 'update_text':
+      return transcript.map(segment => (segment.id === edit.segmentId ? { ...segment, text: edit.text } : segment));
+
+    case 'rename_speaker':
+      // The voice label stays, so speaker assignments still match the segments
+      return transcript.map(segment => (segment.speaker === edit.from
+        ? { ...segment, speakerLabel: voiceLabel(segment), speaker: edit.to }
+        : segment));
+
+    case 'merge': {
+      const index = transcript.findIndex(segment => segment.id === edit.segmentId);
+      const next = transcript[index + 1];
+      if (index === -1 || next?.id !== edit.nextSegmentId) return transcript;
+      const merged = {
+        ...transcript[index],
+        endTime: next.endTime,
+        text: `${transcript[index].text.trimEnd()} ${next.text.trimStart()}`,
+      };
+      return [...transcript.slice(0, index), merged, ...transcript.slice(index + 2)];
+    }
+
+    case 'split': {
+      const index = transcript.findIndex(segment => segment.id === edit.segmentId);
+      if (index === -1) return transcript;
+      const segment = transcript[index];
+      const before = segment.text.slice(0, edit.offset).trim();
+      const after = segment.text.slice(edit.offset).trim();
+      if (!before || !after) return transcript;
+      const first = { ...segment, text: before, endTime: edit.splitTime };
+      const second = {
+        ...segment,
+        id: `${segment.id}_split_${edit.offset}`, // replaced by the server's id once saved
+        text: after,
+        startTime: edit.splitTime,
+        timestamp: formatTimestamp(edit.splitTime),
+      };
+      return [...transcript.slice(0, index), first, second, ...transcript.slice(index + 1)];
+    }
+
+    default:
+      return transcript;
+  }
+}
+
+/**
+ * One-line description of an edit for the revision history.
+ */
+export function describeTranscriptEdit(edit: TranscriptEdit, transcript: TranscriptSegment[] = []): string {
+  const at = (segmentId: string) => {
+    const segment = transcript.find(entry => entry.id === segmentId);
+    return segment ? ` at ${segment.timestamp}` : '';
+  };
+
+  switch (edit.type) {
+    case 'update_text':
+      return `Edited text${at(edit.segmentId)}`;
+    case 'merge':
+      return `Merged segments${at(edit.segmentId)}`;
+    case 'split':
+      return `Split segment at ${formatTimestamp(edit.splitTime)}`;
+    case 'rename_speaker':
+      return `Renamed "${edit.from}" to "${edit.to}"`;
+    default:
+      return 'Edited transcript';
+  }
+}
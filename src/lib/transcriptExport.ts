@@ -0,0 +1,292 @@
+/**
+ * Client-side export of a meeting's transcript, summary, highlights and
+ * action items. DOCX and PDF renderers are loaded on demand so their
+ * libraries stay out of the main bundle.
+ */
+
+import { format, parseISO } from "date-fns";
+import type { ActionItem, Meeting, TranscriptSegment } from "@/services/apiService";
+import { formatDuration, participantName } from "@/lib/meetingFormat";
+
+export type ExportFormat = 'txt' | 'md' | 'srt' | 'vtt' | 'docx' | 'pdf';
+export type ExportSection = 'summary' | 'highlights' | 'actionItems' | 'transcript';
+
+export interface ExportFormatInfo {
+  label: string;
+  extension: string;
+  mimeType: string;
+  captionsOnly: boolean; // subtitle formats only carry the transcript
+  binary: boolean; // can't be copied to the clipboard
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatInfo> = {
+  txt: { label: 'Plain text', extension: 'txt', mimeType: 'text/plain', captionsOnly: false, binary: false },
+  md: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown', captionsOnly: false, binary: false },
+  srt: { label: 'SubRip subtitles (SRT)', extension: 'srt', mimeType: 'application/x-subrip', captionsOnly: true, binary: false },
+  vtt: { label: 'WebVTT captions', extension: 'vtt', mimeType: 'text/vtt', captionsOnly: true, binary: false },
+  docx: {
+    label: 'Word document (DOCX)',
+    extension: 'docx',
+    mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    captionsOnly: false,
+    binary: true
+  },
+  pdf: { label: 'PDF', extension: 'pdf', mimeType: 'application/pdf', captionsOnly: false, binary: true },
+};
+
+export const EXPORT_SECTIONS: Array<{ key: ExportSection; label: string }> = [
+  { key: 'summary', label: 'Summary' },
+  { key: 'highlights', label: 'Key highlights' },
+  { key: 'actionItems', label: 'Action items' },
+  { key: 'transcript', label: 'Transcript' },
+];
+
+// Captions need an end time; without one, a segment runs until the next begins
+const LAST_CAPTION_SECONDS = 5;
+
+interface Cue {
+  start: number;
+  end: number;
+  segment: TranscriptSegment;
+}
+
+const toCues = (transcript: TranscriptSegment[]): Cue[] =>
+  transcript.map((segment, index) => ({
+    start: segment.startTime,
+    end: segment.endTime ?? transcript[index + 1]?.startTime ?? segment.startTime + LAST_CAPTION_SECONDS,
+    segment,
+  }));
+
+// 3725.5 -> "01:02:05,500" (SRT) or "01:02:05.500" (WebVTT)
+const formatCueTime = (seconds: number, separator: ',' | '.') => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3_600_000);
+  const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+  const secs = Math.floor((totalMs % 60_000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+};
+
+// A blank line ends a cue and "-->" marks a timing line, so neither can
+// appear inside cue text
+const toCueText = (text: string) => text.replace(/-->/g, '→').replace(/\n\s*\n/g, '\n').trim();
+
+// WebVTT cue text is markup: "<" opens a tag and "&" an entity
+const escapeVtt = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const formatActionItem = (item: ActionItem) => {
+  const assignee = item.assignee ? participantName(item.assignee) : 'Unassigned';
+  const due = item.deadline ? format(parseISO(item.deadline), 'PPP') : 'No due date';
+  return `${item.task} (Assigned: ${assignee}, Due: ${due})`;
+};
+
+const meetingSubtitle = (meeting: Meeting) =>
+  `${format(new Date(meeting.date), 'PPP p')} · ${formatDuration(meeting.duration)} · ` +
+  meeting.participants.map(participantName).join(', ');
+
+export function toSrt(meeting: Meeting): string {
+  return toCues(meeting.transcript ?? [])
+    .map((cue, index) => [
+      index + 1,
+      `${formatCueTime(cue.start, ',')} --> ${formatCueTime(cue.end, ',')}`,
+      toCueText(`${cue.segment.speaker}: ${cue.segment.text}`),
+    ].join('\n'))
+    .join('\n\n') + '\n';
+}
+
+export function toWebVtt(meeting: Meeting): string {
+  const cues = toCues(meeting.transcript ?? []).map(cue => [
+    cue.segment.id,
+    `${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}`,
+    `<v ${escapeVtt(cue.segment.speaker.replace(/\s+/g, ' '))}>${escapeVtt(toCueText(cue.segment.text))}`,
+  ].join('\n'));
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+}
+
+export function toPlainText(meeting: Meeting, sections: ExportSection[]): string {
+  const blocks = [`${meeting.title}\n${meetingSubtitle(meeting)}`];
+
+  if (sections.includes('summary') && meeting.summary) {
+    blocks.push(`SUMMARY\n\n${meeting.summary}`);
+  }
+  if (sections.includes('highlights') && meeting.keyHighlights?.length) {
+    blocks.push(`KEY HIGHLIGHTS\n\n${meeting.keyHighlights.map((highlight, index) => `${index + 1}. ${highlight}`).join('\n')}`);
+  }
+  if (sections.includes('actionItems') && meeting.actionItems?.length) {
+    blocks.push(`ACTION ITEMS\n\n${meeting.actionItems.map((item, index) => `${index + 1}. ${formatActionItem(item)}`).join('\n')}`);
+  }
+  if (sections.includes('transcript') && meeting.transcript?.length) {
+    blocks.push(`TRANSCRIPT\n\n${meeting.transcript.map(entry => `[${entry.timestamp}] ${entry.speaker}: ${entry.text}`).join('\n\n')}`);
+  }
+
+  return blocks.join('\n\n\n') + '\n';
+}
+
+export function toMarkdown(meeting: Meeting, sections: ExportSection[]): string {
+  const blocks = [`# ${meeting.title}`, `_${meetingSubtitle(meeting)}_`];
+
+  if (sections.includes('summary') && meeting.summary) {
+    blocks.push(`## Summary\n\n${meeting.summary}`);
+  }
+  if (sections.includes('highlights') && meeting.keyHighlights?.length) {
+    blocks.push(`## Key Highlights\n\n${meeting.keyHighlights.map(highlight => `- ${highlight}`).join('\n')}`);
+  }
+  if (sections.includes('actionItems') && meeting.actionItems?.length) {
+    blocks.push(`## Action Items\n\n${meeting.actionItems
+      .map(item => `- [${item.status === 'completed' ? 'x' : ' '}] ${formatActionItem(item)}`)
+      .join('\n')}`);
+  }
+  if (sections.includes('transcript') && meeting.transcript?.length) {
+    blocks.push(`## Transcript\n\n${meeting.transcript
+      .map(entry => `**${entry.speaker}** \`${entry.timestamp}\`  \n${entry.text}`)
+      .join('\n\n')}`);
+  }
+
+  return blocks.join('\n\n') + '\n';
+}
+
+async function toDocx(meeting: Meeting, sections: ExportSection[]): Promise<Blob> {
+  const { Document, HeadingLevel, Packer, Paragraph, TextRun } = await import('docx');
+
+  const heading = (text: string) => new Paragraph({ text, heading: HeadingLevel.HEADING_2, spacing: { before: 300 } });
+  const children = [
+    new Paragraph({ text: meeting.title, heading: HeadingLevel.TITLE }),
+    new Paragraph({ children: [new TextRun({ text: meetingSubtitle(meeting), italics: true })] }),
+  ];
+
+  if (sections.includes('summary') && meeting.summary) {
+    children.push(heading('Summary'), new Paragraph(meeting.summary));
+  }
+  if (sections.includes('highlights') && meeting.keyHighlights?.length) {
+    children.push(heading('Key Highlights'));
+    meeting.keyHighlights.forEach(highlight => children.push(new Paragraph({ text: highlight, bullet: { level: 0 } })));
+  }
+  if (sections.includes('actionItems') && meeting.actionItems?.length) {
+    children.push(heading('Action Items'));
+    meeting.actionItems.forEach(item => children.push(new Paragraph({ text: formatActionItem(item), bullet: { level: 0 } })));
+  }
+  if (sections.includes('transcript') && meeting.transcript?.length) {
+    children.push(heading('Transcript'));
+    meeting.transcript.forEach(entry => children.push(new Paragraph({
+      spacing: { after: 120 },
+      children: [
+        new TextRun({ text: `[${entry.timestamp}] `, color: '666666' }),
+        new TextRun({ text: `${entry.speaker}: `, bold: true }),
+        new TextRun(entry.text),
+      ],
+    })));
+  }
+
+  return Packer.toBlob(new Document({ sections: [{ children }] }));
+}
+
+// jsPDF's built-in fonts only cover Windows-1252: Latin-1 plus a few
+// typographic characters. Anything else would come out as garbage.
+const PDF_UNSUPPORTED_CHARACTER = /[^\t\n\r\x20-\x7e\xa0-\xff€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ]/u;
+
+async function toPdf(meeting: Meeting, sections: ExportSection[]): Promise<Blob> {
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ unit: 'pt', format: 'a4' });
+  const margin = 48;
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const textWidth = doc.internal.pageSize.getWidth() - margin * 2;
+  let y = margin;
+
+  // Write wrapped text, starting a new page whenever the current one is full
+  const write = (text: string, size = 11, style: 'normal' | 'bold' | 'italic' = 'normal', spaceAfter = 6) => {
+    const unsupported = text.match(PDF_UNSUPPORTED_CHARACTER);
+    if (unsupported) {
+      throw new Error(
+        `PDF export only supports Latin text, and this meeting contains characters like "${unsupported[0]}". ` +
+        'Export it as a Word document instead.'
+      );
+    }
+    doc.setFont('helvetica', style);
+    doc.setFontSize(size);
+    const lineHeight = size * 1.35;
+    for (const line of doc.splitTextToSize(text, textWidth) as string[]) {
+      if (y + lineHeight > pageHeight - margin) {
+        doc.addPage();
+        y = margin;
+      }
+      doc.text(line, margin, y + size);
+      y += lineHeight;
+    }
+    y += spaceAfter;
+  };
+  const heading = (text: string) => {
+    y += 10;
+    write(text, 14, 'bold');
+  };
+
+  write(meeting.title, 20, 'bold');
+  write(meetingSubtitle(meeting), 10, 'italic', 12);
+
+  if (sections.includes('summary') && meeting.summary) {
+    heading('Summary');
+    write(meeting.summary);
+  }
+  if (sections.includes('highlights') && meeting.keyHighlights?.length) {
+    heading('Key Highlights');
+    meeting.keyHighlights.forEach(highlight => write(`• ${highlight}`));
+  }
+  if (sections.includes('actionItems') && meeting.actionItems?.length) {
+    heading('Action Items');
+    meeting.actionItems.forEach((item, index) => write(`${index + 1}. ${formatActionItem(item)}`));
+  }
+  if (sections.includes('transcript') && meeting.transcript?.length) {
+    heading('Transcript');
+    meeting.transcript.forEach(entry => {
+      write(`[${entry.timestamp}] ${entry.speaker}`, 10, 'bold', 2);
+      write(entry.text, 11, 'normal', 8);
+    });
+  }
+
+  return doc.output('blob');
+}
+
+/**
+ * Render a meeting in the given format. Text formats resolve to a string
+ * (so they can also be copied), DOCX and PDF to a Blob.
+ */
+export async function renderExport(
+  meeting: Meeting,
+  exportFormat: ExportFormat,
+  sections: ExportSection[]
+): Promise<string | Blob> {
+  switch (exportFormat) {
+    case 'srt': return toSrt(meeting);
+    case 'vtt': return toWebVtt(meeting);
+    case 'md': return toMarkdown(meeting, sections);
+    case 'docx': return toDocx(meeting, sections);
+    case 'pdf': return toPdf(meeting, sections);
+    default: return toPlainText(meeting, sections);
+  }
+}
+
+/**
+ * A filesystem-friendly file name for a meeting export.
+ */
+export function exportFileName(meeting: Meeting, exportFormat: ExportFormat): string {
+  const slug = meeting.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'meeting';
+  return `${slug}-${format(new Date(meeting.date), 'yyyy-MM-dd')}.${EXPORT_FORMATS[exportFormat].extension}`;
+}
+
+/**
+ * Save rendered export content through a temporary download link.
+ */
+export function downloadExport(content: string | Blob, fileName: string, exportFormat: ExportFormat) {
+  const blob = typeof content === 'string'
+    ? new Blob([content], { type: `${EXPORT_FORMATS[exportFormat].mimeType};charset=utf-8` })
+    : content;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
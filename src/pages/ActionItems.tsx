@@ -0,0 +1,213 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { Navigation } from "@/components/Navigation";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { AlertCircle, ListChecks, PlayCircle, User } from "lucide-react";
+import {
+  endOfWeek,
+  format,
+  isBefore,
+  isToday,
+  isWithinInterval,
+  parseISO,
+  startOfToday
+} from "date-fns";
+import { cn } from "@/lib/utils";
+import { formatTimestamp, participantName } from "@/lib/meetingFormat";
+import { useAllActionItems, useToggleActionItemStatus } from "@/hooks/useActionItems";
+import { apiService, type ActionItem, type ActionItemWithMeeting } from "@/services/apiService";
+
+type StatusFilter = "all" | ActionItem["status"];
+type DueGroup = "overdue" | "today" | "thisWeek" | "later" | "noDueDate";
+
+const GROUPS: Array<{ key: DueGroup; label: string }> = [
+  { key: "overdue", label: "Overdue" },
+  { key: "today", label: "Today" },
+  { key: "thisWeek", label: "This Week" },
+  { key: "later", label: "Later" },
+  { key: "noDueDate", label: "No Due Date" },
+];
+
+const ALL_ASSIGNEES = "all";
+
+const getDueGroup = (item: ActionItem): DueGroup => {
+  if (!item.deadline) return "noDueDate";
+  const deadline = parseISO(item.deadline);
+  const today = startOfToday();
+  if (isToday(deadline)) return "today";
+  if (isBefore(deadline, today)) return item.status === "completed" ? "later" : "overdue";
+  if (isWithinInterval(deadline, { start: today, end: endOfWeek(today, { weekStartsOn: 1 }) })) {
+    return "thisWeek";
+  }
+  return "later";
+};
+
+// Deep link to the meeting, at the transcript moment the item came up
+const getSourceLink = (item: ActionItemWithMeeting) =>
+  item.sourceStartTime !== undefined
+    ? `/meeting/${item.meetingId}?t=${Math.floor(item.sourceStartTime)}`
+    : `/meeting/${item.meetingId}`;
+
+export default function ActionItems() {
+  const currentUserEmail = apiService.getCachedUserProfile()?.email;
+  const [assignee, setAssignee] = useState<string>(currentUserEmail ?? ALL_ASSIGNEES);
+  const [status, setStatus] = useState<StatusFilter>("pending");
+  const toggleStatus = useToggleActionItemStatus();
+
+  const { data: items = [], isLoading, isError, error, refetch } = useAllActionItems({
+    assignee: assignee === ALL_ASSIGNEES ? undefined : assignee,
+    status: status === "all" ? undefined : status
+  });
+
+  // Remember every assignee seen so far, so narrowing the filter keeps the other options
+  const [knownAssignees, setKnownAssignees] = useState<string[]>(currentUserEmail ? [currentUserEmail] : []);
+  useEffect(() => {
+    setKnownAssignees(prev => {
+      const seen = new Set(prev);
+      items.forEach(item => item.assignee && seen.add(item.assignee));
+      return seen.size === prev.length ? prev : Array.from(seen).sort();
+    });
+  }, [items]);
+
+  const grouped = useMemo(() => {
+    const groups = Object.fromEntries(GROUPS.map(group => [group.key, [] as ActionItemWithMeeting[]])) as
+      Record<DueGroup, ActionItemWithMeeting[]>;
+    items.forEach(item => groups[getDueGroup(item)].push(item));
+    Object.values(groups).forEach(group =>
+      group.sort((a, b) => (a.deadline ?? "").localeCompare(b.deadline ?? ""))
+    );
+    return groups;
+  }, [items]);
+
+  return (
+    <div className="min-h-screen bg-background pb-20">
+      <Navigation />
+
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold">My Action Items</h1>
+          <p className="text-muted-foreground mt-2">
+            Follow up on tasks from all of your meetings
+          </p>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-col sm:flex-row gap-2 mb-8">
+          <Select value={assignee} onValueChange={setAssignee}>
+            <SelectTrigger className="w-full sm:w-64">
+              <User className="w-4 h-4" />
+              <SelectValue placeholder="Assignee" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_ASSIGNEES}>Everyone</SelectItem>
+              {knownAssignees.map(email => (
+                <SelectItem key={email} value={email}>
+                  {email === currentUserEmail ? "Me" : participantName(email)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={status} onValueChange={(value) => setStatus(value as StatusFilter)}>
+            <SelectTrigger className="w-full sm:w-40">
+              <SelectValue placeholder="Status" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="pending">Pending</SelectItem>
+              <SelectItem value="completed">Completed</SelectItem>
+              <SelectItem value="all">All Status</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-4">
+            {Array.from({ length: 4 }).map((_, index) => (
+              <Skeleton key={index} className="h-20 rounded-lg" />
+            ))}
+          </div>
+        ) : isError ? (
+          <div className="text-center py-12">
+            <AlertCircle className="w-12 h-12 text-destructive mx-auto mb-4" />
+            <h3 className="text-xl font-semibold mb-2">Failed to load action items</h3>
+            <p className="text-muted-foreground mb-6">
+              {error instanceof Error ? error.message : "Please try again."}
+            </p>
+            <Button variant="outline" onClick={() => refetch()}>
+              Try Again
+            </Button>
+          </div>
+        ) : items.length === 0 ? (
+          <div className="text-center py-12">
+            <div className="w-24 h-24 bg-muted rounded-full flex items-center justify-center mx-auto mb-4">
+              <ListChecks className="w-12 h-12 text-muted-foreground" />
+            </div>
+            <h3 className="text-xl font-semibold mb-2">No action items</h3>
+            <p className="text-muted-foreground">
+              Nothing matches these filters. Action items from processed meetings will appear here.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {GROUPS.filter(group => grouped[group.key].length > 0).map(group => (
+              <Card key={group.key}>
+                <CardHeader className="flex flex-row items-center justify-between pb-3">
+                  <CardTitle className={cn(group.key === "overdue" && "text-destructive")}>
+                    {group.label}
+                  </CardTitle>
+                  <Badge variant="secondary">{grouped[group.key].length}</Badge>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {grouped[group.key].map(item => (
+                    <div key={item.id} className="flex items-start space-x-3 p-3 bg-muted/30 rounded-lg">
+                      <Checkbox
+                        className="mt-1"
+                        checked={item.status === "completed"}
+                        onCheckedChange={() => toggleStatus.mutate(item)}
+                        aria-label="Mark as completed"
+                      />
+                      <div className="flex-1 space-y-1">
+                        <p className={cn(
+                          "text-sm font-medium",
+                          item.status === "completed" && "line-through text-muted-foreground"
+                        )}>
+                          {item.task}
+                        </p>
+                        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                          <span>
+                            Assigned to: <strong>{item.assignee ? participantName(item.assignee) : "Unassigned"}</strong>
+                          </span>
+                          {item.deadline && <span>Due: {format(parseISO(item.deadline), "PPP")}</span>}
+                          <Link
+                            to={getSourceLink(item)}
+                            className="inline-flex items-center gap-1 text-primary hover:underline"
+                          >
+                            <PlayCircle className="w-3 h-3" />
+                            {item.meetingTitle}
+                            {item.sourceStartTime !== undefined && ` @ ${formatTimestamp(item.sourceStartTime)}`}
+                          </Link>
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
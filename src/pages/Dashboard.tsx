@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { Navigation } from "@/components/Navigation";
 import { MeetingCard } from "@/components/MeetingCard";
 import { RecordingControls } from "@/components/RecordingControls";
@@ -11,113 +11,91 @@ import {
   SelectTrigger, 
   SelectValue 
 } from "@/components/ui/select";
-import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
 import { 
   Plus, 
   Filter, 
   Calendar,
   Clock,
   Users,
-  BarChart3
+  BarChart3,
+  AlertCircle,
+  Loader2
 } from "lucide-react";
 import { Link } from "react-router-dom";
+import { useDebounce } from "@/hooks/useDebounce";
+import { useMeetingStats, useMeetingsInfinite } from "@/hooks/useMeetings";
+import { useMeetingStatusUpdates } from "@/hooks/useMeetingStatus";
+import { useRecordingSource } from "@/hooks/useAudioDevices";
+import { formatDuration, participantName } from "@/lib/meetingFormat";
+import type { Meeting, MeetingListParams } from "@/services/apiService";
 
-// Mock data for demonstration
-const mockMeetings = [
-  {
-    id: "1",
-    title: "Q4 Product Planning Meeting",
-    date: new Date(2024, 11, 20, 14, 0),
-    duration: "1h 45m",
-    summary: "Discussed product roadmap for Q4, identified key milestones and resource allocation. Team agreed on three major feature releases and timeline adjustments.",
-    participants: [
-      { name: "Sarah Johnson", avatar: "/placeholder.svg" },
-      { name: "Mike Chen", avatar: "/placeholder.svg" },
-      { name: "Emily Davis", avatar: "/placeholder.svg" },
-      { name: "Alex Rodriguez", avatar: "/placeholder.svg" }
-    ],
-    status: "completed" as const
-  },
-  {
-    id: "2", 
-    title: "Weekly Team Standup",
-    date: new Date(2024, 11, 19, 9, 30),
-    duration: "45m",
-    summary: "Quick status updates from all team members. Discussed current blockers and upcoming priorities for the week.",
-    participants: [
-      { name: "Sarah Johnson", avatar: "/placeholder.svg" },
-      { name: "Mike Chen", avatar: "/placeholder.svg" },
-      { name: "Tom Wilson", avatar: "/placeholder.svg" }
-    ],
-    status: "completed" as const
-  },
-  {
-    id: "3",
-    title: "Client Onboarding Session",
-    date: new Date(2024, 11, 18, 16, 0),
-    duration: "2h 15m", 
-    summary: "Comprehensive onboarding session with new enterprise client. Covered platform features, integration requirements, and training schedule.",
-    participants: [
-      { name: "Emily Davis", avatar: "/placeholder.svg" },
-      { name: "John Smith", avatar: "/placeholder.svg" },
-      { name: "Lisa Brown", avatar: "/placeholder.svg" },
-      { name: "David Lee", avatar: "/placeholder.svg" },
-      { name: "Maria Garcia", avatar: "/placeholder.svg" }
-    ],
-    status: "completed" as const
-  },
-  {
-    id: "4",
-    title: "Budget Review Meeting",
-    date: new Date(2024, 11, 17, 11, 0),
-    duration: "1h 20m",
-    summary: "Quarterly budget review with finance team. Analyzed spending patterns and projected Q1 budget requirements.",
-    participants: [
-      { name: "Alex Rodriguez", avatar: "/placeholder.svg" },
-      { name: "Jennifer Kim", avatar: "/placeholder.svg" }
-    ],
-    status: "processing" as const
-  }
-];
+type SortOption = "date-desc" | "date-asc" | "title-asc" | "title-desc";
+type StatusFilter = "all" | Meeting["status"];
+
+// Translate the sort select value into the API's sortBy/sortOrder pair
+const toSortParams = (sortBy: SortOption): Pick<MeetingListParams, "sortBy" | "sortOrder"> => {
+  const [field, order] = sortBy.split("-") as ["date" | "title", "asc" | "desc"];
+  return { sortBy: field, sortOrder: order };
+};
 
 export default function Dashboard() {
   const [searchQuery, setSearchQuery] = useState("");
-  const [sortBy, setSortBy] = useState("date-desc");
-  const [filterStatus, setFilterStatus] = useState("all");
-
-  const filteredMeetings = mockMeetings
-    .filter(meeting => {
-      const matchesSearch = meeting.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                           meeting.summary.toLowerCase().includes(searchQuery.toLowerCase());
-      const matchesStatus = filterStatus === "all" || meeting.status === filterStatus;
-      return matchesSearch && matchesStatus;
-    })
-    .sort((a, b) => {
-      switch (sortBy) {
-        case "date-desc":
-          return b.date.getTime() - a.date.getTime();
-        case "date-asc":
-          return a.date.getTime() - b.date.getTime();
-        case "title-asc":
-          return a.title.localeCompare(b.title);
-        case "title-desc":
-          return b.title.localeCompare(a.title);
-        default:
-          return 0;
+  const { source, selectSource } = useRecordingSource();
+  const [sortBy, setSortBy] = useState<SortOption>("date-desc");
+  const [filterStatus, setFilterStatus] = useState<StatusFilter>("all");
+  const debouncedSearch = useDebounce(searchQuery.trim());
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  const {
+    data,
+    isLoading,
+    isError,
+    error,
+    refetch,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage
+  } = useMeetingsInfinite({
+    search: debouncedSearch || undefined,
+    status: filterStatus === "all" ? undefined : filterStatus,
+    ...toSortParams(sortBy)
+  });
+
+  const meetings = useMemo(() => data?.pages.flatMap(page => page.meetings) ?? [], [data]);
+
+  // Keep status badges live for meetings still in the processing pipeline
+  useMeetingStatusUpdates(
+    meetings.filter(meeting => meeting.status === "processing").map(meeting => meeting.id)
+  );
+
+  // Infinite scroll: fetch the next page when the sentinel scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
       }
-    });
+    }, { rootMargin: "200px" });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
 
+  // Totals come from the server so they cover every meeting, not just the
+  // pages loaded so far or the ones matching the current filters
+  const { data: meetingStats } = useMeetingStats();
   const stats = {
-    total: mockMeetings.length,
-    thisWeek: mockMeetings.filter(m => {
-      const weekAgo = new Date();
-      weekAgo.setDate(weekAgo.getDate() - 7);
-      return m.date >= weekAgo;
-    }).length,
-    totalDuration: "8h 5m",
-    participants: new Set(mockMeetings.flatMap(m => m.participants.map(p => p.name))).size
+    total: meetingStats?.total ?? "—",
+    thisWeek: meetingStats?.thisWeek ?? "—",
+    totalDuration: meetingStats ? formatDuration(meetingStats.totalDuration) : "—",
+    participants: meetingStats?.participants ?? "—"
   };
 
+  const hasFilters = Boolean(debouncedSearch) || filterStatus !== "all";
+
   return (
     <div className="min-h-screen bg-background pb-20">
       <Navigation />
@@ -143,7 +121,7 @@ export default function Dashboard() {
           {/* Live Recording Controls */}
           <div className="mb-8">
             <h2 className="text-xl font-semibold mb-4">Record Live Meeting</h2>
-            <RecordingControls />
+            <RecordingControls source={source} onSourceChange={selectSource} />
           </div>
 
           {/* Stats */}
@@ -188,9 +166,17 @@ export default function Dashboard() {
               onChange={(e) => setSearchQuery(e.target.value)}
               className="max-w-md"
             />
+            {debouncedSearch && (
+              <Link
+                to={`/search?q=${encodeURIComponent(debouncedSearch)}`}
+                className="inline-block mt-2 text-sm text-primary hover:underline"
+              >
+                Search transcripts for "{debouncedSearch}"
+              </Link>
+            )}
           </div>
           <div className="flex gap-2">
-            <Select value={sortBy} onValueChange={setSortBy}>
+            <Select value={sortBy} onValueChange={(value) => setSortBy(value as SortOption)}>
               <SelectTrigger className="w-48">
                 <SelectValue placeholder="Sort by" />
               </SelectTrigger>
@@ -202,7 +188,7 @@ export default function Dashboard() {
               </SelectContent>
             </Select>
             
-            <Select value={filterStatus} onValueChange={setFilterStatus}>
+            <Select value={filterStatus} onValueChange={(value) => setFilterStatus(value as StatusFilter)}>
               <SelectTrigger className="w-40">
                 <Filter className="w-4 h-4" />
                 <SelectValue placeholder="Filter" />
@@ -218,12 +204,56 @@ export default function Dashboard() {
         </div>
 
         {/* Meetings Grid */}
-        {filteredMeetings.length > 0 ? (
+        {isLoading ? (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {filteredMeetings.map((meeting) => (
-              <MeetingCard key={meeting.id} {...meeting} />
+            {Array.from({ length: 6 }).map((_, index) => (
+              <Skeleton key={index} className="h-56 rounded-lg" />
             ))}
           </div>
+        ) : isError ? (
+          <div className="text-center py-12">
+            <AlertCircle className="w-12 h-12 text-destructive mx-auto mb-4" />
+            <h3 className="text-xl font-semibold mb-2">Failed to load meetings</h3>
+            <p className="text-muted-foreground mb-6">
+              {error instanceof Error ? error.message : "Please try again."}
+            </p>
+            <Button variant="outline" onClick={() => refetch()}>
+              Try Again
+            </Button>
+          </div>
+        ) : meetings.length > 0 ? (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {meetings.map((meeting) => (
+                <MeetingCard
+                  key={meeting.id}
+                  id={meeting.id}
+                  title={meeting.title}
+                  date={new Date(meeting.date)}
+                  duration={formatDuration(meeting.duration)}
+                  summary={meeting.summary ?? ""}
+                  participants={meeting.participants.map(email => ({ name: participantName(email) }))}
+                  status={meeting.status}
+                  processingStage={meeting.processingStage}
+                />
+              ))}
+            </div>
+
+            {/* Infinite scroll sentinel */}
+            <div ref={loadMoreRef} className="flex justify-center py-8">
+              {isFetchingNextPage ? (
+                <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+              ) : hasNextPage ? (
+                <Button variant="outline" onClick={() => fetchNextPage()}>
+                  Load More
+                </Button>
+              ) : (
+                <span className="text-sm text-muted-foreground">
+                  Showing all {meetings.length} of {stats.total} meetings
+                </span>
+              )}
+            </div>
+          </>
         ) : (
           <div className="text-center py-12">
             <div className="w-24 h-24 bg-muted rounded-full flex items-center justify-center mx-auto mb-4">
@@ -231,12 +261,12 @@ export default function Dashboard() {
             </div>
             <h3 className="text-xl font-semibold mb-2">No meetings found</h3>
             <p className="text-muted-foreground mb-6">
-              {searchQuery || filterStatus !== "all" 
+              {hasFilters 
                 ? "Try adjusting your search or filters" 
                 : "Upload your first meeting recording to get started"
               }
             </p>
-            {!searchQuery && filterStatus === "all" && (
+            {!hasFilters && (
               <Button asChild variant="hero" size="lg">
                 <Link to="/upload">
                   <Plus className="w-5 h-5" />
@@ -1,130 +1,245 @@
-import { useState } from "react";
-import { useParams, Link } from "react-router-dom";
+import { Fragment, useEffect, useMemo, useRef, useState } from "react";
+import { useParams, useSearchParams, Link } from "react-router-dom";
 import { Navigation } from "@/components/Navigation";
 import { ChatInterface } from "@/components/ChatInterface";
+import { MediaPlayer, type MediaPlayerHandle } from "@/components/MediaPlayer";
+import { ActionItemsCard } from "@/components/ActionItemsCard";
+import { ExportDialog } from "@/components/ExportDialog";
+import { TranscriptSegmentItem } from "@/components/TranscriptSegmentItem";
+import { TranscriptHistoryDialog } from "@/components/TranscriptHistoryDialog";
+import { ShareDialog } from "@/components/ShareDialog";
+import { SummaryEmailCard } from "@/components/SummaryEmailCard";
+import { SpeakerMappingCard } from "@/components/SpeakerMappingCard";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Separator } from "@/components/ui/separator";
-import { 
-  ArrowLeft, 
-  Play, 
-  Pause, 
-  Volume2, 
-  Copy, 
-  Download, 
-  CheckSquare,
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  ArrowLeft,
+  Volume2,
+  Copy,
+  Download,
   Clock,
   Calendar,
   Users,
-  MessageSquare
+  MessageSquare,
+  AlertCircle,
+  FileQuestion,
+  Loader2,
+  RefreshCw,
+  History,
+  Share2,
+  Bookmark,
+  StickyNote
 } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
+import {
+  formatDuration,
+  formatTimestamp,
+  parseTimestamp,
+  participantName,
+  PROCESSING_STAGE_LABELS
+} from "@/lib/meetingFormat";
+import { toPlainText } from "@/lib/transcriptExport";
+import { computeSpeakerStats, formatTalkTime } from "@/lib/speakerStats";
+import { useToast } from "@/hooks/use-toast";
+import { useMeetingDetails, useReprocessMeeting } from "@/hooks/useMeetings";
+import { useMeetingStatusUpdates } from "@/hooks/useMeetingStatus";
+import { useTranscriptEditing } from "@/hooks/useTranscriptEditing";
+import { ApiError, type TranscriptCitation, type TranscriptSegment } from "@/services/apiService";
 
-// Mock meeting data
-const mockMeetingData = {
-  id: "1",
-  title: "Q4 Product Planning Meeting",
-  date: new Date(2024, 11, 20, 14, 0),
-  duration: "1h 45m",
-  participants: [
-    { name: "Sarah Johnson", role: "Product Manager" },
-    { name: "Mike Chen", role: "Engineering Lead" },
-    { name: "Emily Davis", role: "UX Designer" },
-    { name: "Alex Rodriguez", role: "Data Analyst" }
-  ],
-  keyHighlights: [
-    "Finalized Q4 product roadmap with three major feature releases",
-    "Allocated additional resources to mobile app development",
-    "Established weekly check-ins with engineering team",
-    "Set launch date for new analytics dashboard: January 15th"
-  ],
-  actionItems: [
-    {
-      task: "Create detailed technical specifications for analytics dashboard",
-      assignee: "Mike Chen",
-      deadline: "December 28, 2024",
-      status: "pending"
-    },
-    {
-      task: "Conduct user research for mobile app improvements",
-      assignee: "Emily Davis", 
-      deadline: "January 5, 2025",
-      status: "pending"
-    },
-    {
-      task: "Prepare resource allocation presentation for stakeholders",
-      assignee: "Sarah Johnson",
-      deadline: "December 22, 2024",
-      status: "pending"
-    },
-    {
-      task: "Set up weekly engineering team check-ins",
-      assignee: "Alex Rodriguez",
-      deadline: "December 20, 2024",
-      status: "completed"
-    }
-  ],
-  transcript: [
-    {
-      speaker: "Sarah Johnson",
-      timestamp: "00:00:15",
-      text: "Good afternoon everyone, thanks for joining the Q4 planning session. Let's start by reviewing our current progress and discussing the roadmap for the next quarter."
-    },
-    {
-      speaker: "Mike Chen", 
-      timestamp: "00:01:32",
-      text: "The engineering team has made significant progress on the core platform. We're ahead of schedule on the API improvements and should be ready to start work on the analytics dashboard next week."
-    },
-    {
-      speaker: "Emily Davis",
-      timestamp: "00:03:45", 
-      text: "From a UX perspective, we've completed the user research for the mobile app redesign. The findings suggest we should prioritize the notification system and simplify the navigation."
-    },
-    {
-      speaker: "Alex Rodriguez",
-      timestamp: "00:05:12",
-      text: "The data shows that user engagement has increased by 23% since the last update. This suggests our current direction is working well, and we should continue focusing on user experience improvements."
-    },
-    {
-      speaker: "Sarah Johnson",
-      timestamp: "00:07:20",
-      text: "Excellent updates everyone. Based on this progress, I think we can confidently move forward with the three major releases we discussed. Let's dive into the specifics of each release timeline."
-    }
-  ]
+// Find the transcript segment playing at the given offset
+const findSegmentAt = (transcript: TranscriptSegment[], seconds: number) => {
+  let index = 0;
+  transcript.forEach((entry, i) => {
+    if (entry.startTime <= seconds) index = i;
+  });
+  return index;
 };
 
+const MeetingDetailsSkeleton = () => (
+  <>
+    <div className="mb-8 space-y-3">
+      <Skeleton className="h-9 w-2/3" />
+      <Skeleton className="h-5 w-1/3" />
+    </div>
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+      <div className="lg:col-span-2 space-y-6">
+        <Skeleton className="h-48 rounded-lg" />
+        <Skeleton className="h-10 rounded-lg" />
+        <Skeleton className="h-64 rounded-lg" />
+      </div>
+      <Skeleton className="h-[600px] rounded-lg" />
+    </div>
+  </>
+);
+
 export default function MeetingDetails() {
   const { meetingId } = useParams();
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [currentTime, setCurrentTime] = useState("00:05:32");
-  const [totalTime] = useState("01:45:23");
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { toast } = useToast();
+  const { data: meeting, isLoading, isError, error, refetch } = useMeetingDetails(meetingId);
+  const reprocessMeeting = useReprocessMeeting();
+  const { editTranscript } = useTranscriptEditing(meetingId ?? "");
+  const [playbackTime, setPlaybackTime] = useState(0);
+  const [activeTab, setActiveTab] = useState("summary");
+  const [focusedSegment, setFocusedSegment] = useState<number | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  const segmentRefs = useRef<Array<HTMLDivElement | null>>([]);
+  const playerRef = useRef<MediaPlayerHandle>(null);
+
+  const transcript = useMemo(() => meeting?.transcript ?? [], [meeting?.transcript]);
+  const keyHighlights = meeting?.keyHighlights ?? [];
+  const actionItems = meeting?.actionItems ?? [];
+  const bookmarks = meeting?.bookmarks ?? [];
 
-  const copyToClipboard = (text: string) => {
-    navigator.clipboard.writeText(text);
-    // You could show a toast here
+  // Keep the page live while the meeting is still being processed
+  useMeetingStatusUpdates(meeting?.status === "processing" ? [meeting.id] : []);
+
+  // Scroll the focused segment into view once the transcript tab has rendered
+  useEffect(() => {
+    if (focusedSegment === null || activeTab !== "transcript") return;
+    segmentRefs.current[focusedSegment]?.scrollIntoView({ behavior: "smooth", block: "center" });
+    const timeout = setTimeout(() => setFocusedSegment(null), 3000);
+    return () => clearTimeout(timeout);
+  }, [focusedSegment, activeTab]);
+
+  // Bookmarks are shown under the segment they fall in
+  const bookmarksBySegment = new Map<number, typeof bookmarks>();
+  if (transcript.length > 0) {
+    [...bookmarks].sort((a, b) => a.time - b.time).forEach(bookmark => {
+      const index = findSegmentAt(transcript, bookmark.time);
+      bookmarksBySegment.set(index, [...(bookmarksBySegment.get(index) ?? []), bookmark]);
+    });
+  }
+
+  const activeSegment = playbackTime > 0 && transcript.length > 0 ? findSegmentAt(transcript, playbackTime) : null;
+
+  // Follow the playhead through the transcript
+  useEffect(() => {
+    if (activeSegment === null || activeTab !== "transcript") return;
+    segmentRefs.current[activeSegment]?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+  }, [activeSegment, activeTab]);
+
+  const seekTo = (seconds: number) => {
+    playerRef.current?.seek(seconds, true);
+    setPlaybackTime(seconds);
+  };
+
+  // Open the transcript at a given moment and start playback there
+  const jumpToMoment = (seconds: number) => {
+    setActiveTab("transcript");
+    setFocusedSegment(findSegmentAt(transcript, seconds));
+    seekTo(seconds);
+  };
+
+  const handleCitationClick = (citation: TranscriptCitation) => {
+    jumpToMoment(citation.startTime ?? parseTimestamp(citation.timestamp));
+  };
+
+  // Deep links such as /meeting/:id?t=225 open at that transcript moment
+  const deepLinkTime = searchParams.get("t");
+  useEffect(() => {
+    if (deepLinkTime === null || transcript.length === 0) return;
+    const seconds = Number(deepLinkTime);
+    if (Number.isFinite(seconds)) {
+      setActiveTab("transcript");
+      setFocusedSegment(findSegmentAt(transcript, seconds));
+      playerRef.current?.seek(seconds);
+      setPlaybackTime(seconds);
+    }
+    setSearchParams(params => {
+      params.delete("t");
+      return params;
+    }, { replace: true });
+  }, [deepLinkTime, transcript, setSearchParams]);
+
+  const handleReprocess = async () => {
+    if (!meeting) return;
+    try {
+      await reprocessMeeting.mutateAsync(meeting.id);
+      toast({
+        title: "Reprocessing Started",
+        description: "We'll update this page as soon as processing completes.",
+      });
+    } catch (error) {
+      toast({
+        title: "Reprocessing Failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const copyToClipboard = async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({ title: "Copied to clipboard" });
+    } catch {
+      toast({ title: "Copy Failed", description: "Clipboard access was denied.", variant: "destructive" });
+    }
   };
 
   const copyAllHighlights = () => {
-    const text = mockMeetingData.keyHighlights.map((highlight, index) => 
+    const text = keyHighlights.map((highlight, index) =>
       `${index + 1}. ${highlight}`
     ).join('\n');
     copyToClipboard(text);
   };
 
-  const copyAllActionItems = () => {
-    const text = mockMeetingData.actionItems.map((item, index) => 
-      `${index + 1}. ${item.task} (Assigned: ${item.assignee}, Due: ${item.deadline})`
-    ).join('\n');
-    copyToClipboard(text);
-  };
+  const renderBody = () => {
+    if (isLoading) {
+      return <MeetingDetailsSkeleton />;
+    }
 
-  return (
-    <div className="min-h-screen bg-background pb-20">
-      <Navigation />
-      
-      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+    if (isError || !meeting) {
+      const isNotFound = error instanceof ApiError && error.status === 404;
+      return (
+        <div className="text-center py-16">
+          <div className="w-24 h-24 bg-muted rounded-full flex items-center justify-center mx-auto mb-4">
+            {isNotFound
+              ? <FileQuestion className="w-12 h-12 text-muted-foreground" />
+              : <AlertCircle className="w-12 h-12 text-destructive" />}
+          </div>
+          <h2 className="text-xl font-semibold mb-2">
+            {isNotFound ? "Meeting not found" : "Failed to load meeting"}
+          </h2>
+          <p className="text-muted-foreground mb-6">
+            {isNotFound
+              ? "This meeting doesn't exist or you no longer have access to it."
+              : error instanceof Error ? error.message : "Please try again."}
+          </p>
+          <div className="flex justify-center gap-2">
+            {!isNotFound && (
+              <Button variant="outline" onClick={() => refetch()}>
+                Try Again
+              </Button>
+            )}
+            <Button asChild variant="hero">
+              <Link to="/">Back to Dashboard</Link>
+            </Button>
+          </div>
+        </div>
+      );
+    }
+
+    // Meetings shared before roles existed only ever reached their owner
+    const role = meeting.role ?? "owner";
+    const canEdit = role !== "viewer";
+
+    // Talk time of every voice assigned to each participant
+    const talkByParticipant = new Map<string, { talkTime: number; wordCount: number }>();
+    computeSpeakerStats(transcript, meeting.duration).forEach(({ label, talkTime, wordCount }) => {
+      const email = meeting.speakers?.find(entry => entry.label === label)?.email;
+      if (!email) return;
+      const total = talkByParticipant.get(email) ?? { talkTime: 0, wordCount: 0 };
+      talkByParticipant.set(email, { talkTime: total.talkTime + talkTime, wordCount: total.wordCount + wordCount });
+    });
+
+    return (
+      <>
         {/* Header */}
         <div className="mb-8">
           <div className="flex items-center space-x-4 mb-4">
@@ -134,25 +249,67 @@ export default function MeetingDetails() {
               </Link>
             </Button>
             <div className="flex-1">
-              <h1 className="text-3xl font-bold">{mockMeetingData.title}</h1>
+              <h1 className="text-3xl font-bold">{meeting.title}</h1>
               <div className="flex items-center space-x-6 mt-2 text-muted-foreground">
                 <div className="flex items-center space-x-1">
                   <Calendar className="w-4 h-4" />
-                  <span>{formatDistanceToNow(mockMeetingData.date, { addSuffix: true })}</span>
+                  <span>{formatDistanceToNow(new Date(meeting.date), { addSuffix: true })}</span>
                 </div>
                 <div className="flex items-center space-x-1">
                   <Clock className="w-4 h-4" />
-                  <span>{mockMeetingData.duration}</span>
+                  <span>{formatDuration(meeting.duration)}</span>
                 </div>
                 <div className="flex items-center space-x-1">
                   <Users className="w-4 h-4" />
-                  <span>{mockMeetingData.participants.length} participants</span>
+                  <span>{meeting.participants.length} participants</span>
                 </div>
               </div>
             </div>
+            <Button variant="outline" onClick={() => setIsShareOpen(true)}>
+              <Share2 className="w-4 h-4 mr-2" />
+              Share
+            </Button>
           </div>
         </div>
 
+        {meeting.status === "processing" && (
+          <Card className="mb-8 border-warning/40 bg-warning/5">
+            <CardContent className="p-6 flex items-center space-x-3">
+              <Loader2 className="w-5 h-5 animate-spin text-warning" />
+              <div>
+                <p className="font-medium">
+                  {meeting.processingStage
+                    ? `${PROCESSING_STAGE_LABELS[meeting.processingStage]}...`
+                    : "Processing your meeting..."}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  The summary, transcript and action items will appear here when processing completes.
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {meeting.status === "failed" && (
+          <Card className="mb-8 border-destructive/40 bg-destructive/5">
+            <CardContent className="p-6 flex flex-col sm:flex-row sm:items-center gap-4">
+              <AlertCircle className="w-6 h-6 text-destructive flex-shrink-0" />
+              <div className="flex-1">
+                <p className="font-medium">Processing failed</p>
+                <p className="text-sm text-muted-foreground">
+                  We couldn't transcribe or summarize this recording. You can try processing it again.
+                </p>
+              </div>
+              <Button onClick={handleReprocess} disabled={reprocessMeeting.isPending}>
+                {reprocessMeeting.isPending
+                  ? <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  : <RefreshCw className="w-4 h-4 mr-2" />}
+                Reprocess
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Main Content */}
           <div className="lg:col-span-2 space-y-6">
@@ -165,170 +322,171 @@ export default function MeetingDetails() {
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="space-y-4">
-                  <div className="bg-muted rounded-lg p-4 flex items-center justify-center h-32">
-                    <div className="text-center">
-                      <div className="w-16 h-16 bg-primary/20 rounded-full flex items-center justify-center mx-auto mb-2">
-                        <Volume2 className="w-8 h-8 text-primary" />
-                      </div>
-                      <p className="text-sm text-muted-foreground">Audio Player</p>
-                    </div>
-                  </div>
-                  
-                  <div className="flex items-center space-x-4">
-                    <Button
-                      variant="outline"
-                      size="icon"
-                      onClick={() => setIsPlaying(!isPlaying)}
-                    >
-                      {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
-                    </Button>
-                    
-                    <div className="flex-1">
-                      <div className="flex justify-between text-sm text-muted-foreground mb-1">
-                        <span>{currentTime}</span>
-                        <span>{totalTime}</span>
-                      </div>
-                      <div className="w-full bg-muted rounded-full h-2">
-                        <div className="bg-primary h-2 rounded-full w-1/3"></div>
-                      </div>
-                    </div>
-                    
-                    <Button variant="outline" size="icon">
-                      <Volume2 className="w-4 h-4" />
-                    </Button>
-                  </div>
-                </div>
+                <MediaPlayer
+                  ref={playerRef}
+                  src={meeting.recordingUrl}
+                  peaks={meeting.waveformPeaks}
+                  markers={bookmarks.map(({ id, time, note }) => ({ id, time, label: note ?? "Bookmark" }))}
+                  onTimeUpdate={setPlaybackTime}
+                />
               </CardContent>
             </Card>
 
             {/* Meeting Content Tabs */}
-            <Tabs defaultValue="summary" className="w-full">
+            <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
               <TabsList className="grid w-full grid-cols-3">
                 <TabsTrigger value="summary">Summary</TabsTrigger>
                 <TabsTrigger value="transcript">Transcript</TabsTrigger>
                 <TabsTrigger value="participants">Participants</TabsTrigger>
               </TabsList>
-              
+
               <TabsContent value="summary" className="space-y-6">
+                {meeting.summary && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Summary</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <p className="text-sm leading-relaxed">{meeting.summary}</p>
+                    </CardContent>
+                  </Card>
+                )}
+
                 {/* Key Highlights */}
                 <Card>
                   <CardHeader className="flex flex-row items-center justify-between">
                     <CardTitle>Key Highlights</CardTitle>
-                    <Button variant="outline" size="sm" onClick={copyAllHighlights}>
+                    <Button variant="outline" size="sm" onClick={copyAllHighlights} disabled={keyHighlights.length === 0}>
                       <Copy className="w-4 h-4" />
                     </Button>
                   </CardHeader>
                   <CardContent>
-                    <ul className="space-y-3">
-                      {mockMeetingData.keyHighlights.map((highlight, index) => (
-                        <li key={index} className="flex items-start space-x-3">
-                          <div className="w-6 h-6 bg-primary/10 rounded-full flex items-center justify-center flex-shrink-0 mt-0.5">
-                            <span className="text-xs font-semibold text-primary">{index + 1}</span>
-                          </div>
-                          <p className="text-sm leading-relaxed">{highlight}</p>
-                        </li>
-                      ))}
-                    </ul>
+                    {keyHighlights.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">No highlights yet.</p>
+                    ) : (
+                      <ul className="space-y-3">
+                        {keyHighlights.map((highlight, index) => (
+                          <li key={index} className="flex items-start space-x-3">
+                            <div className="w-6 h-6 bg-primary/10 rounded-full flex items-center justify-center flex-shrink-0 mt-0.5">
+                              <span className="text-xs font-semibold text-primary">{index + 1}</span>
+                            </div>
+                            <p className="text-sm leading-relaxed">{highlight}</p>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
                   </CardContent>
                 </Card>
 
                 {/* Action Items */}
-                <Card>
-                  <CardHeader className="flex flex-row items-center justify-between">
-                    <CardTitle>Action Items</CardTitle>
-                    <Button variant="outline" size="sm" onClick={copyAllActionItems}>
-                      <Copy className="w-4 h-4" />
-                    </Button>
-                  </CardHeader>
-                  <CardContent>
-                    <div className="space-y-4">
-                      {mockMeetingData.actionItems.map((item, index) => (
-                        <div key={index} className="flex items-start space-x-3 p-3 bg-muted/30 rounded-lg">
-                          <div className="pt-1">
-                            <CheckSquare className={`w-4 h-4 ${
-                              item.status === 'completed' ? 'text-success' : 'text-muted-foreground'
-                            }`} />
-                          </div>
-                          <div className="flex-1 space-y-1">
-                            <p className="text-sm font-medium">{item.task}</p>
-                            <div className="flex items-center space-x-4 text-xs text-muted-foreground">
-                              <span>Assigned to: <strong>{item.assignee}</strong></span>
-                              <span>Due: {item.deadline}</span>
-                              <Badge 
-                                variant={item.status === 'completed' ? 'default' : 'secondary'}
-                                className={item.status === 'completed' ? 'bg-success text-success-foreground' : ''}
-                              >
-                                {item.status}
-                              </Badge>
-                            </div>
-                          </div>
-                        </div>
-                      ))}
-                    </div>
-                  </CardContent>
-                </Card>
+                <ActionItemsCard
+                  meetingId={meeting.id}
+                  actionItems={actionItems}
+                  participants={meeting.participants}
+                  onCopy={copyToClipboard}
+                  readOnly={!canEdit}
+                />
               </TabsContent>
-              
+
               <TabsContent value="transcript">
                 <Card>
                   <CardHeader className="flex flex-row items-center justify-between">
                     <CardTitle>Full Transcript</CardTitle>
                     <div className="flex space-x-2">
-                      <Button variant="outline" size="sm">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => copyToClipboard(toPlainText(meeting, ["transcript"]))}
+                        disabled={transcript.length === 0}
+                        title="Copy transcript"
+                      >
                         <Copy className="w-4 h-4" />
                       </Button>
-                      <Button variant="outline" size="sm">
+                      <Button variant="outline" size="sm" onClick={() => setIsHistoryOpen(true)} title="Edit history">
+                        <History className="w-4 h-4" />
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => setIsExportOpen(true)} title="Export">
                         <Download className="w-4 h-4" />
                       </Button>
                     </div>
                   </CardHeader>
                   <CardContent>
-                    <div className="space-y-4">
-                      {mockMeetingData.transcript.map((entry, index) => (
-                        <div key={index} className="space-y-2">
-                          <div className="flex items-center space-x-2">
-                            <span className="text-xs text-muted-foreground bg-muted px-2 py-1 rounded">
-                              {entry.timestamp}
-                            </span>
-                            <span className="text-sm font-semibold text-primary">
-                              {entry.speaker}
-                            </span>
-                          </div>
-                          <p className="text-sm leading-relaxed pl-4 border-l-2 border-muted">
-                            {entry.text}
-                          </p>
-                          {index < mockMeetingData.transcript.length - 1 && <Separator />}
-                        </div>
-                      ))}
-                    </div>
+                    {transcript.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">The transcript isn't available yet.</p>
+                    ) : (
+                      <div className="space-y-4">
+                        {transcript.map((entry, index) => (
+                          <Fragment key={entry.id}>
+                            <TranscriptSegmentItem
+                              ref={(el) => (segmentRefs.current[index] = el)}
+                              segment={entry}
+                              nextSegment={transcript[index + 1]}
+                              isActive={activeSegment === index}
+                              isFocused={focusedSegment === index}
+                              editable={canEdit && meeting.status === "completed"}
+                              onSeek={seekTo}
+                              onEdit={(edit) => editTranscript.mutate(edit)}
+                            />
+                            {bookmarksBySegment.get(index)?.map(bookmark => (
+                              <button
+                                key={bookmark.id}
+                                type="button"
+                                onClick={() => seekTo(bookmark.time)}
+                                className="flex w-full items-center gap-2 rounded-md border-l-2 border-warning bg-warning/10 px-3 py-1.5 text-left text-sm hover:bg-warning/20"
+                              >
+                                {bookmark.note
+                                  ? <StickyNote className="h-4 w-4 shrink-0 text-warning" />
+                                  : <Bookmark className="h-4 w-4 shrink-0 text-warning" />}
+                                <span className="font-mono text-xs text-muted-foreground">
+                                  {formatTimestamp(bookmark.time)}
+                                </span>
+                                <span>{bookmark.note ?? "Bookmarked during the recording"}</span>
+                              </button>
+                            ))}
+                          </Fragment>
+                        ))}
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
               </TabsContent>
-              
-              <TabsContent value="participants">
+
+              <TabsContent value="participants" className="space-y-6">
                 <Card>
                   <CardHeader>
                     <CardTitle>Meeting Participants</CardTitle>
                   </CardHeader>
                   <CardContent>
                     <div className="space-y-4">
-                      {mockMeetingData.participants.map((participant, index) => (
-                        <div key={index} className="flex items-center space-x-4 p-3 bg-muted/30 rounded-lg">
-                          <div className="w-10 h-10 bg-primary/10 rounded-full flex items-center justify-center">
-                            <span className="text-sm font-semibold text-primary">
-                              {participant.name.split(' ').map(n => n[0]).join('')}
-                            </span>
-                          </div>
-                          <div>
-                            <p className="font-medium">{participant.name}</p>
-                            <p className="text-sm text-muted-foreground">{participant.role}</p>
+                      {meeting.participants.map((email) => {
+                        const name = participantName(email);
+                        const talk = talkByParticipant.get(email);
+                        return (
+                          <div key={email} className="flex items-center space-x-4 p-3 bg-muted/30 rounded-lg">
+                            <div className="w-10 h-10 bg-primary/10 rounded-full flex items-center justify-center">
+                              <span className="text-sm font-semibold text-primary">
+                                {name.split(' ').map(n => n[0]).join('')}
+                              </span>
+                            </div>
+                            <div>
+                              <p className="font-medium">{name}</p>
+                              <p className="text-sm text-muted-foreground">{email}</p>
+                            </div>
+                            {talk && (
+                              <p className="ml-auto text-sm text-muted-foreground text-right">
+                                {formatTalkTime(talk.talkTime)} · {talk.wordCount.toLocaleString()} words
+                              </p>
+                            )}
                           </div>
-                        </div>
-                      ))}
+                        );
+                      })}
                     </div>
                   </CardContent>
                 </Card>
+
+                <SpeakerMappingCard meeting={meeting} canEdit={canEdit} />
+
+                <SummaryEmailCard meeting={meeting} canSend={canEdit} />
               </TabsContent>
             </Tabs>
           </div>
@@ -339,10 +497,35 @@ export default function MeetingDetails() {
               <MessageSquare className="w-5 h-5 text-primary" />
               <h2 className="text-xl font-semibold">Ask AI Assistant</h2>
             </div>
-            <ChatInterface meetingId={meetingId || "1"} />
+            <ChatInterface meetingId={meeting.id} onCitationClick={handleCitationClick} />
           </div>
         </div>
+
+        <ExportDialog isOpen={isExportOpen} onClose={() => setIsExportOpen(false)} meeting={meeting} />
+        <TranscriptHistoryDialog
+          isOpen={isHistoryOpen}
+          onClose={() => setIsHistoryOpen(false)}
+          meetingId={meeting.id}
+          transcript={transcript}
+          canRevert={canEdit}
+        />
+        <ShareDialog
+          isOpen={isShareOpen}
+          onClose={() => setIsShareOpen(false)}
+          meetingId={meeting.id}
+          canManage={role === "owner"}
+        />
+      </>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background pb-20">
+      <Navigation />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        {renderBody()}
       </main>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -2,9 +2,13 @@ import { Navigation } from "@/components/Navigation";
 import { RecordingControls } from "@/components/RecordingControls";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { Mic, Volume2, Clock, Users } from "lucide-react";
+import { useRecordingSource } from "@/hooks/useAudioDevices";
 
 export default function Record() {
+  const { source, selectSource } = useRecordingSource();
+
   return (
     <div className="min-h-screen bg-background pb-20">
       <Navigation />
@@ -22,7 +26,7 @@ export default function Record() {
 
         {/* Recording Interface */}
         <div className="space-y-6">
-          <RecordingControls />
+          <RecordingControls source={source} onSourceChange={selectSource} />
 
           {/* Recording Tips */}
           <Card className="bg-gradient-to-r from-primary/5 to-secondary/5 border-primary/10">
@@ -73,6 +77,22 @@ export default function Record() {
                       </p>
                     </div>
                   </div>
+                  <div className="flex items-start gap-3">
+                    <div className="w-2 h-2 bg-primary rounded-full mt-2" />
+                    <div>
+                      <h4 className="font-medium">Online Calls</h4>
+                      <p className="text-sm text-muted-foreground">
+                        {source === 'call'
+                          ? 'Join the call in a browser tab, then share that tab with "Share audio" on when you start recording'
+                          : 'For Zoom, Meet or Teams calls, record the call audio too so remote participants are heard clearly'}
+                      </p>
+                      {source !== 'call' && (
+                        <Button variant="link" className="h-auto p-0 text-sm" onClick={() => selectSource('call')}>
+                          Record call audio + microphone
+                        </Button>
+                      )}
+                    </div>
+                  </div>
                 </div>
               </div>
             </CardContent>
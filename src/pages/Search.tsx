@@ -0,0 +1,226 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { Navigation } from "@/components/Navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertCircle, Loader2, PlayCircle, Search as SearchIcon, User } from "lucide-react";
+import { format } from "date-fns";
+import { useDebounce } from "@/hooks/useDebounce";
+import { useMeetingSearch } from "@/hooks/useSearch";
+import { parseSearchQuery, splitHighlights, toSearchParams, type ParsedSearchQuery } from "@/lib/searchQuery";
+import type { SearchHit } from "@/services/apiService";
+
+const SOURCE_LABELS: Record<SearchHit["source"], string> = {
+  transcript: "Transcript",
+  action_item: "Action Item",
+  highlight: "Highlight",
+};
+
+// Deep link to the meeting, at the transcript moment of the hit when known
+const getHitLink = (hit: SearchHit) =>
+  hit.startTime !== undefined
+    ? `/meeting/${hit.meetingId}?t=${Math.floor(hit.startTime)}`
+    : `/meeting/${hit.meetingId}`;
+
+function HighlightedSnippet({ text, query }: { text: string; query: ParsedSearchQuery }) {
+  return (
+    <>
+      {splitHighlights(text, query).map((part, index) =>
+        part.match ? (
+          <mark key={index} className="bg-warning/30 text-foreground rounded px-0.5">{part.text}</mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+export default function Search() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [input, setInput] = useState(searchParams.get("q") ?? "");
+  const debouncedInput = useDebounce(input.trim());
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  // Keep the query in the URL so searches can be shared and survive a reload
+  useEffect(() => {
+    setSearchParams(debouncedInput ? { q: debouncedInput } : {}, { replace: true });
+  }, [debouncedInput, setSearchParams]);
+
+  const query = useMemo(() => parseSearchQuery(debouncedInput), [debouncedInput]);
+  const hasQuery = query.terms.length + query.phrases.length + query.speakers.length > 0;
+
+  const {
+    data,
+    isLoading,
+    isError,
+    error,
+    refetch,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage
+  } = useMeetingSearch(toSearchParams(query));
+
+  const hits = useMemo(() => data?.pages.flatMap(page => page.hits) ?? [], [data]);
+  const total = data?.pages[0]?.total ?? 0;
+
+  // Group hits by meeting, keeping the server's relevance order
+  const groups = useMemo(() => {
+    const byMeeting = new Map<string, SearchHit[]>();
+    hits.forEach(hit => byMeeting.set(hit.meetingId, [...(byMeeting.get(hit.meetingId) ?? []), hit]));
+    return Array.from(byMeeting.values());
+  }, [hits]);
+
+  // Infinite scroll: fetch the next page when the sentinel scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    }, { rootMargin: "200px" });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  return (
+    <div className="min-h-screen bg-background pb-20">
+      <Navigation />
+
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold">Search</h1>
+          <p className="text-muted-foreground mt-2">
+            Find what was said across every meeting transcript, action item and highlight
+          </p>
+        </div>
+
+        {/* Search box */}
+        <div className="mb-8 space-y-2">
+          <div className="relative">
+            <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              autoFocus
+              placeholder='e.g. speaker:"Mike Chen" budget'
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Use quotes for exact phrases and <code>speaker:"Name"</code> to only search what someone said.
+          </p>
+          {query.speakers.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {query.speakers.map(speaker => (
+                <Badge key={speaker} variant="secondary">
+                  <User className="w-3 h-3 mr-1" />
+                  {speaker}
+                </Badge>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {!hasQuery ? (
+          <div className="text-center py-12">
+            <div className="w-24 h-24 bg-muted rounded-full flex items-center justify-center mx-auto mb-4">
+              <SearchIcon className="w-12 h-12 text-muted-foreground" />
+            </div>
+            <h3 className="text-xl font-semibold mb-2">Search your meetings</h3>
+            <p className="text-muted-foreground">
+              Results link straight to the moment in the recording.
+            </p>
+          </div>
+        ) : isLoading ? (
+          <div className="space-y-4">
+            {Array.from({ length: 3 }).map((_, index) => (
+              <Skeleton key={index} className="h-40 rounded-lg" />
+            ))}
+          </div>
+        ) : isError ? (
+          <div className="text-center py-12">
+            <AlertCircle className="w-12 h-12 text-destructive mx-auto mb-4" />
+            <h3 className="text-xl font-semibold mb-2">Search failed</h3>
+            <p className="text-muted-foreground mb-6">
+              {error instanceof Error ? error.message : "Please try again."}
+            </p>
+            <Button variant="outline" onClick={() => refetch()}>
+              Try Again
+            </Button>
+          </div>
+        ) : hits.length === 0 ? (
+          <div className="text-center py-12">
+            <h3 className="text-xl font-semibold mb-2">No matches</h3>
+            <p className="text-muted-foreground">
+              Try fewer words, or check the speaker's name.
+            </p>
+          </div>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground mb-4">
+              {total} {total === 1 ? "match" : "matches"}
+            </p>
+            <div className="space-y-6">
+              {groups.map(group => (
+                <Card key={group[0].meetingId}>
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-lg">
+                      <Link to={`/meeting/${group[0].meetingId}`} className="hover:underline">
+                        {group[0].meetingTitle}
+                      </Link>
+                    </CardTitle>
+                    <p className="text-sm text-muted-foreground">
+                      {format(new Date(group[0].meetingDate), "PPP")}
+                    </p>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {group.map(hit => (
+                      <Link
+                        key={hit.id}
+                        to={getHitLink(hit)}
+                        className="block p-3 bg-muted/30 rounded-lg hover:bg-muted/60 transition-colors"
+                      >
+                        <div className="flex flex-wrap items-center gap-2 mb-1 text-xs text-muted-foreground">
+                          <Badge variant="outline" className="text-xs">{SOURCE_LABELS[hit.source]}</Badge>
+                          {hit.speaker && <span className="font-medium text-primary">{hit.speaker}</span>}
+                          {hit.timestamp && (
+                            <span className="inline-flex items-center gap-1">
+                              <PlayCircle className="w-3 h-3" />
+                              {hit.timestamp}
+                            </span>
+                          )}
+                        </div>
+                        <p className="text-sm leading-relaxed">
+                          <HighlightedSnippet text={hit.snippet} query={query} />
+                        </p>
+                      </Link>
+                    ))}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            {/* Infinite scroll sentinel */}
+            <div ref={loadMoreRef} className="flex justify-center py-8">
+              {isFetchingNextPage ? (
+                <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+              ) : hasNextPage && (
+                <Button variant="outline" onClick={() => fetchNextPage()}>
+                  Load More
+                </Button>
+              )}
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -6,8 +6,13 @@ import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
-import { Bell, Moon, Globe, Download, Trash2, Shield } from "lucide-react";
+import { Bell, Moon, Globe, Download, Trash2, Shield, Mic } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { CalendarConnections } from "@/components/CalendarConnections";
+import { MicrophoneSelect } from "@/components/MicrophoneSelect";
+import { useAudioInputDevices } from "@/hooks/useAudioDevices";
+import { userSettingsKeys } from "@/hooks/useUserSettings";
+import { useQueryClient } from "@tanstack/react-query";
 
 export default function Settings() {
   const [settings, setSettings] = useState({
@@ -21,7 +26,8 @@ export default function Settings() {
       theme: "system",
       language: "en",
       autoDownload: false,
-      dataRetention: "1year"
+      dataRetention: "1year",
+      audioQuality: "medium"
     },
     privacy: {
       shareAnalytics: false,
@@ -30,6 +36,8 @@ export default function Settings() {
   });
   const [isSaving, setIsSaving] = useState(false);
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { devices, selectedDeviceId, selectDevice } = useAudioInputDevices();
 
   useEffect(() => {
     // Fetch user settings from your backend
@@ -68,6 +76,8 @@ export default function Settings() {
       });
       
       if (response.ok) {
+        // The recorder reads the audio quality from the cached settings
+        queryClient.invalidateQueries({ queryKey: userSettingsKeys.all });
         toast({
           title: "Success",
           description: "Settings saved successfully",
@@ -288,6 +298,60 @@ export default function Settings() {
             </CardContent>
           </Card>
 
+          {/* Recording */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Mic className="h-5 w-5" />
+                Recording
+              </CardTitle>
+              <CardDescription>
+                Choose the microphone and quality used for live recordings
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center justify-between gap-4">
+                <div className="space-y-0.5">
+                  <Label>Microphone</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Saved on this device; microphone names appear after you've allowed microphone access
+                  </p>
+                </div>
+                <MicrophoneSelect
+                  devices={devices}
+                  selectedDeviceId={selectedDeviceId}
+                  onSelect={selectDevice}
+                  className="w-56"
+                />
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label>Audio Quality</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Higher quality sounds better but makes larger files to upload
+                  </p>
+                </div>
+                <Select
+                  value={settings.preferences.audioQuality}
+                  onValueChange={(value) => updatePreferenceSetting('audioQuality', value)}
+                >
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="low">Low</SelectItem>
+                    <SelectItem value="medium">Medium</SelectItem>
+                    <SelectItem value="high">High</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Calendars */}
+          <CalendarConnections />
+
           {/* Privacy */}
           <Card>
             <CardHeader>
@@ -0,0 +1,185 @@
+import { useParams, Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertCircle, Calendar, Clock, Link2Off, MessageSquare, Users } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { formatDuration, participantName } from "@/lib/meetingFormat";
+import { useSharedMeeting } from "@/hooks/useSharing";
+import { ApiError } from "@/services/apiService";
+
+/**
+ * Read-only meeting view for public share links. Rendered without the
+ * app navigation because link recipients may not have an account.
+ */
+export default function SharedMeeting() {
+  const { token } = useParams();
+  const { data: meeting, isLoading, isError, error, refetch } = useSharedMeeting(token);
+
+  const renderBody = () => {
+    if (isLoading) {
+      return (
+        <div className="space-y-6">
+          <Skeleton className="h-9 w-2/3" />
+          <Skeleton className="h-5 w-1/3" />
+          <Skeleton className="h-40 rounded-lg" />
+          <Skeleton className="h-64 rounded-lg" />
+        </div>
+      );
+    }
+
+    if (isError || !meeting) {
+      const isUnavailable = error instanceof ApiError && error.status === 404;
+      return (
+        <div className="text-center py-16">
+          {isUnavailable ? (
+            <Link2Off className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+          ) : (
+            <AlertCircle className="w-12 h-12 text-destructive mx-auto mb-4" />
+          )}
+          <h2 className="text-2xl font-bold mb-2">
+            {isUnavailable ? "This link is no longer available" : "Failed to load meeting"}
+          </h2>
+          <p className="text-muted-foreground mb-6">
+            {isUnavailable
+              ? "It may have expired or been revoked. Ask the meeting owner for a new link."
+              : error instanceof Error ? error.message : "Please try again."}
+          </p>
+          {!isUnavailable && (
+            <Button variant="outline" onClick={() => refetch()}>
+              Try Again
+            </Button>
+          )}
+        </div>
+      );
+    }
+
+    const transcript = meeting.transcript ?? [];
+    const keyHighlights = meeting.keyHighlights ?? [];
+    const actionItems = meeting.actionItems ?? [];
+
+    return (
+      <div className="space-y-6">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold">{meeting.title}</h1>
+          <div className="flex flex-wrap items-center gap-x-6 gap-y-1 mt-2 text-muted-foreground">
+            <div className="flex items-center space-x-1">
+              <Calendar className="w-4 h-4" />
+              <span>{format(new Date(meeting.date), "PPP")}</span>
+            </div>
+            <div className="flex items-center space-x-1">
+              <Clock className="w-4 h-4" />
+              <span>{formatDuration(meeting.duration)}</span>
+            </div>
+            <div className="flex items-center space-x-1">
+              <Users className="w-4 h-4" />
+              <span>{meeting.participants.map(participantName).join(", ")}</span>
+            </div>
+          </div>
+        </div>
+
+        {meeting.summary && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Summary</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm leading-relaxed">{meeting.summary}</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {keyHighlights.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Key Highlights</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ul className="space-y-3">
+                {keyHighlights.map((highlight, index) => (
+                  <li key={index} className="flex items-start space-x-3">
+                    <div className="w-6 h-6 bg-primary/10 rounded-full flex items-center justify-center flex-shrink-0 mt-0.5">
+                      <span className="text-xs font-semibold text-primary">{index + 1}</span>
+                    </div>
+                    <p className="text-sm">{highlight}</p>
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        )}
+
+        {actionItems.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Action Items</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {actionItems.map(item => (
+                <div key={item.id} className="p-3 bg-muted/30 rounded-lg">
+                  <p className="text-sm font-medium">{item.task}</p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Assigned to: <strong>{item.assignee ? participantName(item.assignee) : "Unassigned"}</strong>
+                    {item.deadline && ` · Due: ${format(parseISO(item.deadline), "PPP")}`}
+                  </p>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Transcript</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {transcript.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No transcript is available for this meeting.</p>
+            ) : (
+              <div className="space-y-4">
+                {transcript.map((entry, index) => (
+                  <div key={entry.id} className="space-y-2">
+                    <div className="flex items-center space-x-2">
+                      <span className="text-xs text-muted-foreground bg-muted px-2 py-1 rounded">
+                        {entry.timestamp}
+                      </span>
+                      <span className="text-sm font-semibold text-primary">{entry.speaker}</span>
+                    </div>
+                    <p className="text-sm leading-relaxed pl-4 border-l-2 border-muted">{entry.text}</p>
+                    {index < transcript.length - 1 && <Separator />}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-background/95">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 flex justify-between items-center h-14">
+          <div className="flex items-center space-x-2">
+            <div className="w-7 h-7 bg-gradient-icici rounded-lg flex items-center justify-center">
+              <MessageSquare className="w-4 h-4 text-white" />
+            </div>
+            <span className="text-lg font-bold bg-gradient-icici bg-clip-text text-transparent">
+              MeetingSummarizer
+            </span>
+            <span className="text-xs text-muted-foreground">Shared · read-only</span>
+          </div>
+          <Button asChild variant="ghost" size="sm">
+            <Link to="/login">Sign in</Link>
+          </Button>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {renderBody()}
+      </main>
+    </div>
+  );
+}
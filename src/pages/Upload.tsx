@@ -1,112 +1,22 @@
-import { useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { Navigation } from "@/components/Navigation";
 import { FileUploader } from "@/components/FileUploader";
+import { UploadQueueItem } from "@/components/UploadQueueItem";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Calendar } from "@/components/ui/calendar";
-import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { CalendarIcon, ArrowLeft } from "lucide-react";
-import { format } from "date-fns";
-import { cn } from "@/lib/utils";
+import { ArrowLeft } from "lucide-react";
 import { Link } from "react-router-dom";
-import { useToast } from "@/hooks/use-toast";
-import { apiService } from "@/services/apiService";
-import { EmailChipInput } from "@/components/EmailChipInput";
+import { MAX_CONCURRENT_UPLOADS, useUploadQueue } from "@/hooks/useUploadQueue";
 
 export default function Upload() {
   const navigate = useNavigate();
-  const { toast } = useToast();
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [meetingTitle, setMeetingTitle] = useState("");
-  const [meetingDate, setMeetingDate] = useState<Date>();
-  const [participants, setParticipants] = useState<string[]>([]);
-  const [uploadProgress, setUploadProgress] = useState(0);
-  const [isUploading, setIsUploading] = useState(false);
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const { items, addFiles, updateDetails, removeItem, startAll, cancel, retry, clearFinished } = useUploadQueue();
 
-  const handleFileSelect = (file: File) => {
-    setSelectedFile(file);
-    setError(null);
-    // Auto-generate title based on filename if empty
-    if (!meetingTitle) {
-      const nameWithoutExt = file.name.replace(/\.[^/.]+$/, "");
-      setMeetingTitle(nameWithoutExt.replace(/[_-]/g, " "));
-    }
-  };
-
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    if (!selectedFile || !meetingTitle) {
-      setError("Please select a file and provide a meeting title.");
-      return;
-    }
-
-    setIsUploading(true);
-    setError(null);
-
-    try {
-      // Convert File to Blob for API service
-      const recordingBlob = new Blob([selectedFile], { type: selectedFile.type });
-      
-      // Prepare meeting data
-      const meetingData = {
-        title: meetingTitle,
-        date: meetingDate ? meetingDate.toISOString() : new Date().toISOString(),
-        participants: participants,
-        recordingBlob: recordingBlob
-      };
-
-      // Simulate upload progress for better UX
-      const progressInterval = setInterval(() => {
-        setUploadProgress(prev => {
-          if (prev >= 90) {
-            clearInterval(progressInterval);
-            return 90;
-          }
-          return prev + 10;
-        });
-      }, 200);
-
-      // Submit to backend for processing
-      const result = await apiService.processMeeting(meetingData);
-      
-      // Complete progress
-      clearInterval(progressInterval);
-      setUploadProgress(100);
-      setIsUploading(false);
-      setIsProcessing(true);
-
-      toast({
-        title: "Meeting Uploaded Successfully!",
-        description: `"${meetingTitle}" is being processed. You'll see it in your dashboard shortly.`,
-      });
-
-      // Navigate to dashboard after a short delay
-      setTimeout(() => {
-        navigate('/');
-      }, 2000);
-      
-    } catch (error) {
-      console.error('Upload error:', error);
-      setError(error instanceof Error ? error.message : "Failed to upload and process the file. Please try again.");
-      setIsUploading(false);
-      setIsProcessing(false);
-      setUploadProgress(0);
-      
-      toast({
-        title: "Upload Failed",
-        description: error instanceof Error ? error.message : "Failed to upload the meeting. Please try again.",
-        variant: "destructive"
-      });
-    }
-  };
-
-  const canSubmit = selectedFile && meetingTitle && !isUploading && !isProcessing;
+  const pendingItems = items.filter(item => item.status === "pending");
+  const readyCount = pendingItems.filter(item => item.title.trim()).length;
+  const finishedCount = items.filter(item => item.status === "completed" || item.status === "cancelled").length;
+  const isBusy = items.some(item => ["queued", "preparing", "uploading", "processing"].includes(item.status));
+  const allDone = items.length > 0 && items.every(item => item.status === "completed");
 
   return (
     <div className="min-h-screen bg-background pb-20">
@@ -122,9 +32,9 @@ export default function Upload() {
               </Link>
             </Button>
             <div>
-              <h1 className="text-3xl font-bold">Upload Meeting</h1>
+              <h1 className="text-3xl font-bold">Upload Meetings</h1>
               <p className="text-muted-foreground">
-                Upload your audio or video file to generate AI-powered summaries
+                Upload your audio or video files to generate AI-powered summaries
               </p>
             </div>
           </div>
@@ -133,100 +43,70 @@ export default function Upload() {
         <div className="space-y-8">
           {/* File Upload */}
           <div>
-            <h2 className="text-xl font-semibold mb-4">Select Recording</h2>
-            <FileUploader
-              onFileSelect={handleFileSelect}
-              uploadProgress={uploadProgress}
-              isUploading={isUploading}
-              isProcessing={isProcessing}
-              error={error}
-            />
+            <h2 className="text-xl font-semibold mb-4">Select Recordings</h2>
+            <FileUploader onFilesSelect={addFiles} compact={items.length > 0} />
           </div>
 
-          {/* Meeting Details Form */}
-          {selectedFile && !isUploading && !isProcessing && (
+          {/* Upload Queue */}
+          {items.length > 0 && (
             <Card>
               <CardHeader>
-                <CardTitle>Meeting Details</CardTitle>
+                <div className="flex items-center justify-between">
+                  <CardTitle>Upload Queue</CardTitle>
+                  {finishedCount > 0 && (
+                    <Button variant="ghost" size="sm" onClick={clearFinished}>
+                      Clear finished
+                    </Button>
+                  )}
+                </div>
               </CardHeader>
-              <CardContent>
-                <form onSubmit={handleSubmit} className="space-y-6">
-                  <div className="space-y-2">
-                    <Label htmlFor="title">Meeting Title *</Label>
-                    <Input
-                      id="title"
-                      value={meetingTitle}
-                      onChange={(e) => setMeetingTitle(e.target.value)}
-                      placeholder="Enter meeting title..."
-                      required
-                    />
-                  </div>
-
-                  <EmailChipInput
-                    emails={participants}
-                    onChange={setParticipants}
-                    label="Meeting Participants (Optional)"
-                    placeholder="Add participant emails..."
-                    required={false}
+              <CardContent className="space-y-4">
+                {items.map(item => (
+                  <UploadQueueItem
+                    key={item.id}
+                    item={item}
+                    onChange={(details) => updateDetails(item.id, details)}
+                    onRemove={() => removeItem(item.id)}
+                    onCancel={() => cancel(item.id)}
+                    onRetry={() => retry(item.id)}
                   />
-
-                  <div className="space-y-2">
-                    <Label>Meeting Date (Optional)</Label>
-                    <Popover>
-                      <PopoverTrigger asChild>
-                        <Button
-                          variant="outline"
-                          className={cn(
-                            "w-full justify-start text-left font-normal",
-                            !meetingDate && "text-muted-foreground"
-                          )}
-                        >
-                          <CalendarIcon className="mr-2 h-4 w-4" />
-                          {meetingDate ? format(meetingDate, "PPP") : "Select date"}
-                        </Button>
-                      </PopoverTrigger>
-                      <PopoverContent className="w-auto p-0" align="start">
-                        <Calendar
-                          mode="single"
-                          selected={meetingDate}
-                          onSelect={setMeetingDate}
-                          disabled={(date) =>
-                            date > new Date() || date < new Date("1900-01-01")
-                          }
-                          initialFocus
-                          className="p-3 pointer-events-auto"
-                        />
-                      </PopoverContent>
-                    </Popover>
-                  </div>
-
-                  <div className="pt-4 border-t">
-                    <div className="flex justify-between items-center">
-                      <div className="text-sm text-muted-foreground space-y-1">
-                        <p><strong>File:</strong> {selectedFile.name}</p>
-                        <p><strong>Size:</strong> {(selectedFile.size / (1024 * 1024)).toFixed(2)} MB</p>
-                        <p><strong>Type:</strong> {selectedFile.type}</p>
-                        <p className="text-primary font-medium mt-2">
-                          🤖 This file will be processed using AI to generate transcription, summary, and action items
-                        </p>
-                      </div>
-                      <Button 
-                        type="submit" 
-                        variant="hero" 
+                ))}
+
+                <div className="pt-4 border-t">
+                  <div className="flex justify-between items-center gap-4">
+                    <div className="text-sm text-muted-foreground space-y-1">
+                      {readyCount < pendingItems.length && (
+                        <p className="text-destructive">Every recording needs a meeting title before uploading.</p>
+                      )}
+                      <p>Up to {MAX_CONCURRENT_UPLOADS} recordings upload at a time; keep this page open until they finish.</p>
+                      <p className="text-primary font-medium mt-2">
+                        🤖 Each file will be processed using AI to generate transcription, summary, and action items
+                      </p>
+                    </div>
+                    {allDone ? (
+                      <Button variant="hero" size="lg" onClick={() => navigate('/')}>
+                        Go to Dashboard
+                      </Button>
+                    ) : (
+                      <Button
+                        variant="hero"
                         size="lg"
-                        disabled={!canSubmit}
+                        onClick={startAll}
+                        disabled={readyCount === 0}
                       >
-                        {isProcessing ? "Processing with AI..." : "Submit for AI Processing"}
+                        {readyCount > 0
+                          ? `Upload ${readyCount} Recording${readyCount === 1 ? "" : "s"}`
+                          : isBusy ? "Uploading..." : "Submit for AI Processing"}
                       </Button>
-                    </div>
+                    )}
                   </div>
-                </form>
+                </div>
               </CardContent>
             </Card>
           )}
 
           {/* Help Text */}
-          {!selectedFile && (
+          {items.length === 0 && (
             <Card className="bg-muted/30">
               <CardContent className="p-6">
                 <h3 className="font-semibold mb-2">Supported Features</h3>
@@ -235,7 +115,7 @@ export default function Upload() {
                   <li>• Action item extraction and participant identification</li>
                   <li>• Interactive chat with meeting content</li>
                   <li>• Support for audio (MP3, WAV, M4A) and video (MP4, MOV, AVI) files</li>
-                  <li>• Maximum file size: 500MB</li>
+                  <li>• Upload several recordings at once, up to 500MB each</li>
                 </ul>
               </CardContent>
             </Card>
@@ -244,4 +124,4 @@ export default function Upload() {
       </main>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -76,6 +76,96 @@ interface UserProfile {
   updatedAt: string;
 }
 
+/**
+ * Backend processing pipeline stages for a meeting, in order
+ */
+type ProcessingStage =
+  | 'queued'
+  | 'transcribing'
+  | 'summarizing'
+  | 'extracting_action_items'
+  | 'completed'
+  | 'failed';
+
+/**
+ * A single diarized transcript segment
+ */
+interface TranscriptSegment {
+  id: string;
+  speaker: string; // display name; renaming a speaker changes it
+  speakerLabel?: string; // diarized voice, e.g. "Speaker 1"; kept through renames
+  timestamp: string; // HH:MM:SS offset into the recording
+  startTime: number; // same offset in seconds
+  endTime?: number; // seconds
+  text: string;
+}
+
+/**
+ * A single correction to a meeting transcript
+ */
+type TranscriptEdit =
+  | { type: 'update_text'; segmentId: string; text: string }
+  | { type: 'merge'; segmentId: string; nextSegmentId: string } // joins two adjacent segments
+  | { type: 'split'; segmentId: string; offset: number; splitTime: number } // offset is a character index
+  | { type: 'rename_speaker'; from: string; to: string }; // applies to every segment; `speakerLabel` is kept
+
+/**
+ * One saved transcript edit in a meeting's revision history
+ */
+interface TranscriptRevision {
+  id: string;
+  meetingId: string;
+  edit: TranscriptEdit;
+  author: string; // editor's email
+  createdAt: string;
+  revertedRevisionId?: string; // set when this revision undid an earlier one
+}
+
+/**
+ * Action item extracted from (or added to) a meeting
+ */
+interface ActionItem {
+  id: string;
+  meetingId: string;
+  task: string;
+  assignee?: string | null; // participant email, null when unassigned
+  deadline?: string | null; // ISO date, null when there is no due date
+  status: 'pending' | 'completed';
+  sourceStartTime?: number; // seconds into the recording where the item came up
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/**
+ * Action item returned by the cross-meeting listing, with its source meeting
+ */
+interface ActionItemWithMeeting extends ActionItem {
+  meetingTitle: string;
+  meetingDate: string;
+}
+
+/**
+ * Filters for the cross-meeting action item listing
+ */
+interface ActionItemListParams {
+  assignee?: string; // participant email
+  status?: ActionItem['status'];
+}
+
+/**
+ * Data for adding an action item by hand
+ */
+interface CreateActionItemRequest {
+  task: string;
+  assignee?: string | null;
+  deadline?: string | null;
+}
+
+/**
+ * Editable action item fields
+ */
+type UpdateActionItemRequest = Partial<Pick<ActionItem, 'task' | 'assignee' | 'deadline' | 'status'>>;
+
 /**
  * Meeting data structure
  */
@@ -85,15 +175,238 @@ interface Meeting {
   date: string;
   duration: number; // in seconds
   participants: string[]; // email addresses
-  transcript?: string;
+  transcript?: TranscriptSegment[];
   summary?: string;
-  actionItems?: string[];
+  keyHighlights?: string[];
+  actionItems?: ActionItem[];
+  bookmarks?: MeetingBookmark[]; // moments flagged while recording
+  speakers?: MeetingSpeaker[]; // who each diarized voice in the transcript is
   recordingUrl?: string;
+  waveformPeaks?: number[]; // 0-1, precomputed from the recording for the player
   status: 'processing' | 'completed' | 'failed';
+  processingStage?: ProcessingStage;
+  processingProgress?: number; // 0-100 within the current stage
+  role?: MeetingRole; // the current user's access level
+  summaryEmail?: SummaryEmailSettings;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A moment flagged while recording, optionally with a note
+ */
+interface MeetingBookmark {
+  id: string;
+  time: number; // seconds into the recording
+  note?: string; // missing for a plain "this is important" bookmark
+}
+
+/**
+ * A diarized voice in a meeting's transcript and the participant it belongs to
+ */
+interface MeetingSpeaker {
+  label: string; // `speakerLabel` on transcript segments (`speaker` if missing), e.g. "Speaker 1"
+  email?: string; // missing until assigned or recognized
+  recognized?: boolean; // matched automatically from an enrolled voice
+}
+
+/**
+ * A colleague's enrolled voice, used to recognize them in later meetings
+ */
+interface VoiceProfile {
+  email: string;
+  enrolledAt: string;
+  sourceMeetingId: string; // meeting the voice sample was taken from
+}
+
+/**
+ * How a meeting's summary is emailed to its participants
+ */
+interface SummaryEmailSettings {
+  autoSend: boolean; // email participants as soon as processing completes
+  excludedRecipients: string[]; // participants who opted out of the email
+  includeHighlights: boolean;
+  includeActionItems: boolean;
+}
+
+/**
+ * Summary email rendered by the server, exactly as recipients will see it
+ */
+interface SummaryEmailPreview {
+  subject: string;
+  html: string;
+}
+
+/**
+ * Request to email a meeting summary now
+ */
+interface SendSummaryEmailRequest {
+  recipients: string[];
+  includeHighlights: boolean;
+  includeActionItems: boolean;
+  message?: string; // optional note shown above the summary
+}
+
+/**
+ * Delivery state of one summary email, updated from mail provider webhooks
+ */
+interface EmailDelivery {
+  id: string;
+  recipient: string;
+  status: 'queued' | 'sent' | 'bounced' | 'opened';
+  sentAt?: string;
+  openedAt?: string;
+  bounceReason?: string;
+  updatedAt: string;
+}
+
+/**
+ * Access levels for a meeting. Viewers can read, editors can also change
+ * the transcript and action items, and owners can manage sharing.
+ */
+type MeetingRole = 'viewer' | 'editor' | 'owner';
+
+/**
+ * A user with access to a meeting
+ */
+interface MeetingCollaborator {
+  email: string;
+  role: MeetingRole;
+  addedAt: string;
+}
+
+/**
+ * Read-only link that opens a meeting without logging in
+ */
+interface ShareLink {
+  id: string;
+  token: string;
+  url: string; // full /share/:token URL to hand out
   createdAt: string;
+  expiresAt?: string | null; // never expires when absent
+}
+
+/**
+ * Everyone and every link with access to a meeting
+ */
+interface MeetingSharing {
+  collaborators: MeetingCollaborator[];
+  links: ShareLink[];
+}
+
+/**
+ * The parts of a meeting visible through a public share link
+ */
+type SharedMeeting = Pick<
+  Meeting,
+  'id' | 'title' | 'date' | 'duration' | 'participants' | 'summary' | 'keyHighlights' | 'actionItems' | 'transcript'
+>;
+
+/**
+ * Realtime processing status update pushed by the server
+ */
+interface MeetingStatusEvent {
+  meetingId: string;
+  status: Meeting['status'];
+  stage: ProcessingStage;
+  progress?: number; // 0-100 within the current stage
+  error?: string;
   updatedAt: string;
 }
 
+/**
+ * Message pushed by the live transcription socket while recording
+ */
+type LiveTranscriptEvent =
+  | { type: 'partial'; segment: TranscriptSegment } // still being spoken; replaced by later partials
+  | { type: 'final'; segment: TranscriptSegment }
+  | { type: 'done' } // everything sent has been transcribed
+  | { type: 'error'; message: string };
+
+/**
+ * Open live transcription stream, fed with recorder chunks in order
+ */
+interface LiveTranscriptionConnection {
+  sendAudio: (chunk: Blob) => void;
+  finish: () => Promise<void>; // resolves once the server is done or gives up
+  close: () => void;
+}
+
+/**
+ * Options for realtime meeting status subscriptions
+ */
+interface MeetingStatusSubscriptionOptions {
+  pollInterval?: number; // ms between polls when the event stream is unavailable
+}
+
+/**
+ * Query parameters accepted by the meetings list endpoint
+ */
+interface MeetingListParams {
+  page?: number;
+  limit?: number;
+  status?: 'processing' | 'completed' | 'failed';
+  search?: string; // matched against title and summary on the server
+  sortBy?: 'date' | 'title';
+  sortOrder?: 'asc' | 'desc';
+}
+
+/**
+ * Paginated meetings list response
+ */
+interface MeetingListResponse {
+  meetings: Meeting[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+/**
+ * Totals across all of the user's meetings, regardless of list filters
+ */
+interface MeetingStats {
+  total: number;
+  thisWeek: number; // meetings dated within the last 7 days
+  totalDuration: number; // seconds
+  participants: number; // distinct participant emails
+}
+
+/**
+ * Parameters for full-text search across meetings
+ */
+interface SearchParams {
+  q: string; // free text; quoted phrases must match exactly
+  speakers?: string[]; // only match transcript lines by these speakers
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * A single search match with the excerpt around it. Transcript hits carry
+ * the speaker and position so results can link straight to that moment.
+ */
+interface SearchHit {
+  id: string;
+  meetingId: string;
+  meetingTitle: string;
+  meetingDate: string;
+  source: 'transcript' | 'action_item' | 'highlight';
+  snippet: string;
+  speaker?: string;
+  timestamp?: string; // HH:MM:SS offset into the recording
+  startTime?: number; // same offset in seconds
+}
+
+/**
+ * Paginated search response
+ */
+interface SearchResponse {
+  hits: SearchHit[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
 /**
  * Meeting creation request data
  */
@@ -102,6 +415,111 @@ interface CreateMeetingRequest {
   date: string;
   participants: string[];
   recordingBlob: Blob;
+  recordingId?: string; // stored copy of a browser recording; lets a retried upload resume
+  autoSendSummary?: boolean; // email participants the summary once processed
+  liveTranscript?: TranscriptSegment[]; // complete transcript captured while recording; skips transcription
+  bookmarks?: Omit<MeetingBookmark, 'id'>[];
+}
+
+/**
+ * Server-side state of a resumable chunked upload
+ */
+interface UploadSession {
+  uploadId: string;
+  chunkSize: number; // bytes per chunk, chosen by the server
+  receivedChunks: number[]; // indexes of chunks already stored
+}
+
+/**
+ * Resumable upload state persisted in localStorage, keyed by file fingerprint
+ */
+interface StoredUploadState {
+  uploadId: string;
+  chunkSize: number;
+  fileSize: number;
+  createdAt: number; // epoch ms, used to expire stale sessions
+}
+
+/**
+ * A previous question or answer sent as context with a chat request
+ */
+interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Meeting Q&A chat request
+ */
+interface MeetingChatRequest {
+  question: string;
+  history: ChatTurn[];
+}
+
+/**
+ * Reference from a chat answer to the transcript segment that supports it.
+ * The answer text marks each claim with `[id]`, e.g. "...by Friday [1]."
+ */
+interface TranscriptCitation {
+  id: string;
+  speaker: string;
+  timestamp: string; // HH:MM:SS offset into the recording
+  startTime: number; // same offset in seconds
+  quote?: string; // supporting excerpt from the segment
+}
+
+/**
+ * Events streamed back by the meeting chat endpoint
+ */
+type ChatStreamEvent =
+  | { type: 'token'; content: string }
+  | { type: 'citation'; citation: TranscriptCitation }
+  | { type: 'done'; messageId: string }
+  | { type: 'error'; message: string };
+
+/**
+ * Calendar services that are connected through the backend
+ */
+type CalendarProviderId = 'google' | 'microsoft' | 'caldav';
+
+/**
+ * A calendar account the user has connected
+ */
+interface CalendarConnection {
+  id: string;
+  provider: CalendarProviderId;
+  accountName: string; // e.g. the account's email address
+  connectedAt: string;
+}
+
+/**
+ * Login details for a CalDAV server
+ */
+interface CalDavCredentials {
+  serverUrl: string;
+  username: string;
+  password: string; // usually an app-specific password
+}
+
+/**
+ * Result of connecting a calendar. OAuth providers return a URL to send
+ * the user to; CalDAV connects immediately.
+ */
+interface CalendarConnectResult {
+  authUrl?: string;
+  connection?: CalendarConnection;
+}
+
+/**
+ * Calendar event as returned by a connected provider
+ */
+interface RemoteCalendarEvent {
+  id: string;
+  title: string;
+  start: string; // ISO date-time
+  end?: string;
+  attendees: string[]; // emails
+  location?: string;
 }
 
 /**
@@ -156,12 +574,58 @@ const API_CONFIG = {
     
     // Meeting endpoints
     MEETINGS: '/meetings',
+    MEETING_STATS: '/meetings/stats',
     MEETING_DETAILS: '/meetings/:id',
     PROCESS_MEETING: '/meetings/process',
     DELETE_MEETING: '/meetings/:id',
+    REPROCESS_MEETING: '/meetings/:id/reprocess',
+    
+    // Transcript editing endpoints
+    TRANSCRIPT_EDITS: '/meetings/:id/transcript/edits',
+    TRANSCRIPT_REVISIONS: '/meetings/:id/transcript/revisions',
+    REVERT_TRANSCRIPT: '/meetings/:id/transcript/revisions/:revisionId/revert',
+    
+    // Speaker identity endpoints
+    MEETING_SPEAKER: '/meetings/:id/speakers/:label',
+    VOICE_PROFILES: '/voice-profiles',
+    VOICE_PROFILE: '/voice-profiles/:email',
+    
+    // Sharing endpoints
+    MEETING_SHARING: '/meetings/:id/sharing',
+    COLLABORATORS: '/meetings/:id/collaborators',
+    COLLABORATOR: '/meetings/:id/collaborators/:email',
+    SHARE_LINKS: '/meetings/:id/share-links',
+    SHARE_LINK: '/meetings/:id/share-links/:linkId',
+    SHARED_MEETING: '/share/:token', // public, no authentication
+    
+    // Summary email endpoints
+    SUMMARY_EMAIL: '/meetings/:id/summary-email',
+    SUMMARY_EMAIL_SETTINGS: '/meetings/:id/summary-email/settings',
+    SUMMARY_EMAIL_PREVIEW: '/meetings/:id/summary-email/preview',
+    SUMMARY_EMAIL_DELIVERIES: '/meetings/:id/summary-email/deliveries',
+    
+    // Action item endpoints
+    ACTION_ITEMS: '/meetings/:id/action-items',
+    ACTION_ITEM: '/meetings/:id/action-items/:itemId',
+    ALL_ACTION_ITEMS: '/action-items',
+    MEETING_STATUS: '/meetings/:id/status',
+    MEETING_EVENTS: '/meetings/events', // server-sent events stream
+    MEETING_CHAT: '/meetings/:id/chat', // streams text/event-stream
+    LIVE_TRANSCRIPTION: '/transcription/live', // WebSocket
+    
+    // Search endpoints
+    SEARCH: '/search',
+    
+    // Calendar endpoints
+    CALENDAR_CONNECTIONS: '/calendar/connections',
+    CALENDAR_CONNECTION: '/calendar/connections/:id',
+    CALENDAR_EVENTS: '/calendar/connections/:id/events',
     
     // File upload endpoints
-    UPLOAD_RECORDING: '/upload/recording',
+    UPLOAD_SESSIONS: '/upload/sessions',
+    UPLOAD_SESSION: '/upload/sessions/:id',
+    UPLOAD_CHUNK: '/upload/sessions/:id/chunks/:index',
+    UPLOAD_COMPLETE: '/upload/sessions/:id/complete',
     UPLOAD_AVATAR: '/upload/avatar',
   }
 } as const;
@@ -173,8 +637,37 @@ const STORAGE_KEYS = {
   ACCESS_TOKEN: 'meetingSummarizer_accessToken',
   REFRESH_TOKEN: 'meetingSummarizer_refreshToken',
   USER_PROFILE: 'meetingSummarizer_userProfile',
+  UPLOAD_SESSIONS: 'meetingSummarizer_uploadSessions',
+} as const;
+
+/**
+ * Chunked upload configuration
+ */
+const UPLOAD_CONFIG = {
+  CHUNK_SIZE: 5 * 1024 * 1024, // 5MB, a hint; the server may choose another size
+  MAX_CHUNK_RETRIES: 3,
+  RETRY_BASE_DELAY: 1000, // ms, doubled after every failed attempt
+  SESSION_TTL: 24 * 60 * 60 * 1000, // stored sessions older than this are discarded
 } as const;
 
+// ============================================================================
+// ERRORS
+// ============================================================================
+
+/**
+ * Error thrown for non-successful API responses
+ * Carries the HTTP status so callers can distinguish e.g. 404 from 500
+ */
+class ApiError extends Error {
+  status: number;
+  
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
 // ============================================================================
 // UTILITY FUNCTIONS
 // ============================================================================
@@ -218,6 +711,78 @@ const clearAuthData = (): void => {
   localStorage.removeItem('tokenExpiration');
 };
 
+/**
+ * Build a stable fingerprint for a file so an interrupted upload can be
+ * matched again after a page reload. A browser recording is identified by
+ * its stored recording ID, a picked file by its name and modification time.
+ * A plain Blob has nothing that tells two recordings of the same size
+ * apart, so its uploads aren't resumed.
+ * @param {File | Blob} file - The file being uploaded
+ * @param {string} recordingId - ID of the stored recording it came from (optional)
+ * @returns {string | null} Fingerprint used as the upload state key, or null if not resumable
+ */
+const getFileFingerprint = (file: File | Blob, recordingId?: string): string | null => {
+  if (recordingId) {
+    return `recording:${recordingId}:${file.size}`;
+  }
+  if (file instanceof File) {
+    return `${file.name}:${file.size}:${file.lastModified}:${file.type}`;
+  }
+  return null;
+};
+
+/**
+ * Read all stored resumable upload states, dropping expired ones
+ * @returns {Record<string, StoredUploadState>} Upload states by fingerprint
+ */
+const loadUploadStates = (): Record<string, StoredUploadState> => {
+  try {
+    const states: Record<string, StoredUploadState> =
+      JSON.parse(localStorage.getItem(STORAGE_KEYS.UPLOAD_SESSIONS) || '{}');
+    const now = Date.now();
+    return Object.fromEntries(
+      Object.entries(states).filter(([, state]) => now - state.createdAt < UPLOAD_CONFIG.SESSION_TTL)
+    );
+  } catch (error) {
+    console.error('Failed to parse stored upload sessions:', error);
+    return {};
+  }
+};
+
+/**
+ * Store or remove the resumable upload state for a file
+ * @param {string} fingerprint - File fingerprint
+ * @param {StoredUploadState | null} state - State to store, or null to remove it
+ */
+const saveUploadState = (fingerprint: string, state: StoredUploadState | null): void => {
+  const states = loadUploadStates();
+  if (state) {
+    states[fingerprint] = state;
+  } else {
+    delete states[fingerprint];
+  }
+  localStorage.setItem(STORAGE_KEYS.UPLOAD_SESSIONS, JSON.stringify(states));
+};
+
+/**
+ * Wait for the given number of milliseconds, rejecting early if aborted
+ * @param {number} ms - Delay in milliseconds
+ * @param {AbortSignal} signal - Optional abort signal
+ */
+const delay = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(new DOMException('Upload cancelled', 'AbortError'));
+    };
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
 /**
  * Build authorization headers for authenticated requests
  * @returns {HeadersInit} Headers object with authorization
@@ -234,7 +799,7 @@ const buildAuthHeaders = (): HeadersInit => {
  * Handle API errors with proper logging and user-friendly messages
  * @param {Response} response - The failed HTTP response
  * @param {string} context - Context about where the error occurred
- * @throws {Error} Throws an error with user-friendly message
+ * @throws {ApiError} Throws an error with user-friendly message and HTTP status
  */
 const handleApiError = async (response: Response, context: string): Promise<never> => {
   let errorMessage = 'An unexpected error occurred';
@@ -254,7 +819,7 @@ const handleApiError = async (response: Response, context: string): Promise<neve
     console.error(`Failed to parse error response in ${context}:`, parseError);
   }
   
-  throw new Error(errorMessage);
+  throw new ApiError(errorMessage, response.status);
 };
 
 // ============================================================================
@@ -283,6 +848,31 @@ class ApiService {
     options: RequestInit = {}, 
     requiresAuth: boolean = true
   ): Promise<T> {
+    const response = await this.fetchWithAuth(endpoint, options, requiresAuth);
+    
+    // Parse and return response data
+    const data = await response.json();
+    return data.data || data; // Handle both wrapped and unwrapped responses
+  }
+  
+  /**
+   * Send a request with auth headers and token refresh, returning the raw response
+   * 
+   * Shared by `makeRequest` and by streaming endpoints that need to read
+   * the response body incrementally instead of parsing it as JSON.
+   * 
+   * @private
+   * @param {string} endpoint - API endpoint (relative to base URL)
+   * @param {RequestInit} options - Fetch options (method, body, etc.)
+   * @param {boolean} requiresAuth - Whether this request requires authentication
+   * @returns {Promise<Response>} The successful HTTP response
+   * @throws {Error} On request failure or authentication issues
+   */
+  private async fetchWithAuth(
+    endpoint: string,
+    options: RequestInit = {},
+    requiresAuth: boolean = true
+  ): Promise<Response> {
     const url = `${API_CONFIG.BASE_URL}${endpoint}`;
     
     // Build request headers
@@ -335,9 +925,7 @@ class ApiService {
       await handleApiError(response, endpoint);
     }
     
-    // Parse and return response data
-    const data = await response.json();
-    return data.data || data; // Handle both wrapped and unwrapped responses
+    return response;
   }
   
   /**
@@ -698,11 +1286,16 @@ class ApiService {
   /**
    * Get all meetings for the current user
    * 
-   * @param {object} params - Query parameters
+   * Paging, filtering, searching and sorting are all performed server-side.
+   * 
+   * @param {MeetingListParams} params - Query parameters
    * @param {number} params.page - Page number (1-based)
    * @param {number} params.limit - Number of meetings per page
    * @param {string} params.status - Filter by status ('processing', 'completed', 'failed')
-   * @returns {Promise<{ meetings: Meeting[]; total: number; page: number; limit: number }>}
+   * @param {string} params.search - Free-text search over title and summary
+   * @param {string} params.sortBy - Sort field ('date' or 'title')
+   * @param {string} params.sortOrder - Sort direction ('asc' or 'desc')
+   * @returns {Promise<MeetingListResponse>}
    * @throws {Error} On request failure
    * 
    * @example
@@ -710,47 +1303,100 @@ class ApiService {
    * const { meetings, total } = await apiService.getMeetings({
    *   page: 1,
    *   limit: 10,
-   *   status: 'completed'
+   *   status: 'completed',
+   *   search: 'budget',
+   *   sortBy: 'date',
+   *   sortOrder: 'desc'
    * });
    * console.log(`Showing ${meetings.length} of ${total} meetings`);
    * ```
    */
-  async getMeetings(params: {
-    page?: number;
-    limit?: number;
-    status?: 'processing' | 'completed' | 'failed';
-  } = {}): Promise<{ meetings: Meeting[]; total: number; page: number; limit: number }> {
+  async getMeetings(params: MeetingListParams = {}): Promise<MeetingListResponse> {
     const queryParams = new URLSearchParams();
     if (params.page) queryParams.append('page', params.page.toString());
     if (params.limit) queryParams.append('limit', params.limit.toString());
     if (params.status) queryParams.append('status', params.status);
+    if (params.search) queryParams.append('search', params.search);
+    if (params.sortBy) queryParams.append('sortBy', params.sortBy);
+    if (params.sortOrder) queryParams.append('sortOrder', params.sortOrder);
     
     const endpoint = `${API_CONFIG.ENDPOINTS.MEETINGS}?${queryParams.toString()}`;
-    return await this.makeRequest<{ meetings: Meeting[]; total: number; page: number; limit: number }>(
+    return await this.makeRequest<MeetingListResponse>(
       endpoint,
       { method: 'GET' }
     );
   }
   
   /**
-   * Get detailed information about a specific meeting
+   * Get totals for the dashboard, computed server-side over every meeting
+   * rather than the pages of the list loaded so far
    * 
-   * @param {string} meetingId - Unique meeting identifier
-   * @returns {Promise<Meeting>} Detailed meeting information
-   * @throws {Error} On request failure or if meeting not found
+   * @returns {Promise<MeetingStats>} Meeting count, this week's count, total duration and distinct participants
+   * @throws {Error} On request failure
    * 
    * @example
    * ```typescript
-   * try {
-   *   const meeting = await apiService.getMeetingDetails('meeting-123');
-   *   console.log('Meeting:', meeting.title);
-   *   console.log('Participants:', meeting.participants.join(', '));
-   * } catch (error) {
-   *   console.error('Meeting not found:', error.message);
-   * }
+   * const stats = await apiService.getMeetingStats();
+   * console.log(`${stats.thisWeek} of ${stats.total} meetings this week`);
    * ```
    */
-  async getMeetingDetails(meetingId: string): Promise<Meeting> {
+  async getMeetingStats(): Promise<MeetingStats> {
+    return await this.makeRequest<MeetingStats>(
+      API_CONFIG.ENDPOINTS.MEETING_STATS,
+      { method: 'GET' }
+    );
+  }
+  
+  /**
+   * Search transcripts, action items and highlights across all meetings
+   * 
+   * @param {SearchParams} params - Search parameters
+   * @param {string} params.q - Free text; quoted phrases must match exactly
+   * @param {string[]} params.speakers - Only match transcript lines by these speakers
+   * @param {number} params.page - Page number (1-based)
+   * @param {number} params.limit - Hits per page
+   * @returns {Promise<SearchResponse>} Matching snippets with their meeting
+   * @throws {Error} On request failure
+   * 
+   * @example
+   * ```typescript
+   * const { hits, total } = await apiService.searchMeetings({
+   *   q: '"quarterly budget" review',
+   *   speakers: ['Mike Chen']
+   * });
+   * console.log(`${total} matches, first in ${hits[0]?.meetingTitle}`);
+   * ```
+   */
+  async searchMeetings(params: SearchParams): Promise<SearchResponse> {
+    const queryParams = new URLSearchParams();
+    queryParams.append('q', params.q);
+    params.speakers?.forEach(speaker => queryParams.append('speaker', speaker));
+    if (params.page) queryParams.append('page', params.page.toString());
+    if (params.limit) queryParams.append('limit', params.limit.toString());
+    
+    const endpoint = `${API_CONFIG.ENDPOINTS.SEARCH}?${queryParams.toString()}`;
+    return await this.makeRequest<SearchResponse>(endpoint, { method: 'GET' });
+  }
+  
+  /**
+   * Get detailed information about a specific meeting
+   * 
+   * @param {string} meetingId - Unique meeting identifier
+   * @returns {Promise<Meeting>} Detailed meeting information
+   * @throws {Error} On request failure or if meeting not found
+   * 
+   * @example
+   * ```typescript
+   * try {
+   *   const meeting = await apiService.getMeetingDetails('meeting-123');
+   *   console.log('Meeting:', meeting.title);
+   *   console.log('Participants:', meeting.participants.join(', '));
+   * } catch (error) {
+   *   console.error('Meeting not found:', error.message);
+   * }
+   * ```
+   */
+  async getMeetingDetails(meetingId: string): Promise<Meeting> {
     const endpoint = API_CONFIG.ENDPOINTS.MEETING_DETAILS.replace(':id', meetingId);
     return await this.makeRequest<Meeting>(endpoint, { method: 'GET' });
   }
@@ -758,59 +1404,410 @@ class ApiService {
   /**
    * Process a new meeting recording
    * 
-   * Uploads a meeting recording and associated metadata for AI processing.
-   * The recording will be transcribed and summarized asynchronously.
+   * Uploads the recording through the resumable chunked upload protocol,
+   * then submits the meeting metadata for AI processing. The recording
+   * will be transcribed and summarized asynchronously.
    * 
    * @param {CreateMeetingRequest} meetingData - Meeting information and recording
+   * @param {function} onProgress - Upload progress callback, 0-100 (optional)
+   * @param {AbortSignal} signal - Cancels the upload when aborted (optional)
    * @returns {Promise<{ meeting: Meeting; uploadUrl?: string }>} Created meeting object
    * @throws {Error} On upload or processing failure
    * 
    * @example
    * ```typescript
-   * const formData = new FormData();
-   * formData.append('recording', recordingBlob);
-   * formData.append('title', 'Weekly Team Sync');
-   * formData.append('date', '2024-01-15T10:00:00Z');
-   * formData.append('participants', JSON.stringify(['john@company.com']));
-   * 
    * try {
    *   const result = await apiService.processMeeting({
    *     title: 'Weekly Team Sync',
    *     date: '2024-01-15T10:00:00Z',
    *     participants: ['john@company.com'],
    *     recordingBlob: recordingBlob
-   *   });
+   *   }, (progress) => setUploadProgress(progress));
    *   console.log('Meeting processing started:', result.meeting.id);
    * } catch (error) {
    *   console.error('Failed to process meeting:', error.message);
    * }
    * ```
    */
-  async processMeeting(meetingData: CreateMeetingRequest): Promise<{ meeting: Meeting; uploadUrl?: string }> {
-    // Create FormData for file upload
-    const formData = new FormData();
-    formData.append('recording', meetingData.recordingBlob);
-    formData.append('title', meetingData.title);
-    formData.append('date', meetingData.date);
-    formData.append('participants', JSON.stringify(meetingData.participants));
+  async processMeeting(
+    meetingData: CreateMeetingRequest,
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal
+  ): Promise<{ meeting: Meeting; uploadUrl?: string }> {
+    const { fileId } = await this.uploadRecording(meetingData.recordingBlob, onProgress, signal, meetingData.recordingId);
+    
+    const result = await this.makeRequest<{ meeting: Meeting; uploadUrl?: string }>(
+      API_CONFIG.ENDPOINTS.PROCESS_MEETING,
+      {
+        method: 'POST',
+        body: JSON.stringify({
+          fileId,
+          title: meetingData.title,
+          date: meetingData.date,
+          participants: meetingData.participants,
+          autoSendSummary: meetingData.autoSendSummary ?? false,
+          liveTranscript: meetingData.liveTranscript,
+          bookmarks: meetingData.bookmarks,
+        }),
+        signal,
+      }
+    );
     
-    // Make request with FormData (no JSON content-type header)
-    const response = await fetch(`${API_CONFIG.BASE_URL}${API_CONFIG.ENDPOINTS.PROCESS_MEETING}`, {
+    console.log('Meeting processing initiated:', result.meeting?.id);
+    return result;
+  }
+  
+  /**
+   * Re-run AI processing for a meeting whose processing failed
+   * 
+   * @param {string} meetingId - Meeting ID to reprocess
+   * @returns {Promise<Meeting>} The meeting, back in 'processing' status
+   * @throws {Error} On request failure
+   * 
+   * @example
+   * ```typescript
+   * const meeting = await apiService.reprocessMeeting('meeting-123');
+   * console.log(meeting.status); // 'processing'
+   * ```
+   */
+  async reprocessMeeting(meetingId: string): Promise<Meeting> {
+    const endpoint = API_CONFIG.ENDPOINTS.REPROCESS_MEETING.replace(':id', meetingId);
+    const meeting = await this.makeRequest<Meeting>(endpoint, { method: 'POST' });
+    console.log('Meeting reprocessing started:', meetingId);
+    return meeting;
+  }
+  
+  /**
+   * Save a correction to a meeting's transcript
+   * 
+   * Each edit is recorded as a new revision. The server then regenerates the
+   * summary and answers chat questions from the corrected transcript.
+   * A speaker rename only changes display names: each segment keeps its
+   * `speakerLabel`, so speaker assignments and enrolled voices still apply.
+   * 
+   * @param {string} meetingId - Meeting ID
+   * @param {TranscriptEdit} edit - Text change, merge, split or speaker rename
+   * @returns {Promise<Meeting>} The meeting with its updated transcript
+   * @throws {Error} On request failure
+   * 
+   * @example
+   * ```typescript
+   * await apiService.editTranscript('meeting-123', {
+   *   type: 'rename_speaker',
+   *   from: 'Speaker 2',
+   *   to: 'Mike Chen'
+   * });
+   * ```
+   */
+  async editTranscript(meetingId: string, edit: TranscriptEdit): Promise<Meeting> {
+    const endpoint = API_CONFIG.ENDPOINTS.TRANSCRIPT_EDITS.replace(':id', meetingId);
+    return await this.makeRequest<Meeting>(endpoint, {
       method: 'POST',
-      headers: {
-        // Don't set Content-Type - let browser set it with boundary for FormData
-        'Authorization': `Bearer ${getAccessToken()}`,
-      },
-      body: formData,
+      body: JSON.stringify(edit),
     });
-    
-    if (!response.ok) {
-      await handleApiError(response, 'processMeeting');
-    }
-    
-    const data = await response.json();
-    console.log('Meeting processing initiated:', data.meeting?.id);
-    return data.data || data;
+  }
+  
+  /**
+   * Get a meeting's transcript revision history, newest first
+   * 
+   * @param {string} meetingId - Meeting ID
+   * @returns {Promise<TranscriptRevision[]>} Saved transcript edits
+   * @throws {Error} On request failure
+   */
+  async getTranscriptRevisions(meetingId: string): Promise<TranscriptRevision[]> {
+    const endpoint = API_CONFIG.ENDPOINTS.TRANSCRIPT_REVISIONS.replace(':id', meetingId);
+    return await this.makeRequest<TranscriptRevision[]>(endpoint, { method: 'GET' });
+  }
+  
+  /**
+   * Restore the transcript to how it was before a revision
+   * 
+   * Reverting is itself recorded as a revision, so it can be undone too.
+   * 
+   * @param {string} meetingId - Meeting ID
+   * @param {string} revisionId - Revision to undo, along with every later one
+   * @returns {Promise<Meeting>} The meeting with its restored transcript
+   * @throws {Error} On request failure
+   */
+  async revertTranscript(meetingId: string, revisionId: string): Promise<Meeting> {
+    const endpoint = API_CONFIG.ENDPOINTS.REVERT_TRANSCRIPT
+      .replace(':id', meetingId)
+      .replace(':revisionId', revisionId);
+    return await this.makeRequest<Meeting>(endpoint, { method: 'POST' });
+  }
+  
+  /**
+   * Say which participant a diarized voice belongs to
+   * 
+   * Unlike renaming a speaker, this keeps the transcript's labels as they
+   * are. The server uses the mapping to attribute action items and talk
+   * time, and regenerates the summary with real names.
+   * 
+   * @param {string} meetingId - Meeting ID
+   * @param {string} label - Speaker label from the transcript, e.g. "Speaker 1"
+   * @param {string | null} email - Participant email, or null to unassign
+   * @returns {Promise<Meeting>} The meeting with its updated speakers
+   * @throws {Error} On request failure
+   * 
+   * @example
+   * ```typescript
+   * await apiService.assignSpeaker('meeting-123', 'Speaker 2', 'mike.chen@company.com');
+   * ```
+   */
+  async assignSpeaker(meetingId: string, label: string, email: string | null): Promise<Meeting> {
+    const endpoint = API_CONFIG.ENDPOINTS.MEETING_SPEAKER
+      .replace(':id', meetingId)
+      .replace(':label', encodeURIComponent(label));
+    return await this.makeRequest<Meeting>(endpoint, {
+      method: 'PUT',
+      body: JSON.stringify({ email }),
+    });
+  }
+  
+  /**
+   * Get the voices enrolled for automatic speaker recognition
+   * 
+   * @returns {Promise<VoiceProfile[]>} Enrolled voices, one per email
+   * @throws {Error} On request failure
+   */
+  async getVoiceProfiles(): Promise<VoiceProfile[]> {
+    return await this.makeRequest<VoiceProfile[]>(API_CONFIG.ENDPOINTS.VOICE_PROFILES, { method: 'GET' });
+  }
+  
+  /**
+   * Enroll a participant's voice from a meeting they spoke in
+   * 
+   * The server samples the speaker's segments from the meeting recording.
+   * Later meetings then assign that voice to the participant automatically.
+   * Enrolling the same email again replaces the earlier sample.
+   * 
+   * @param {string} meetingId - Meeting to take the voice sample from
+   * @param {string} label - Speaker label of the participant in that meeting
+   * @param {string} email - Participant the voice belongs to
+   * @returns {Promise<VoiceProfile>} The enrolled voice
+   * @throws {Error} On request failure, e.g. too little speech to sample
+   */
+  async enrollVoice(meetingId: string, label: string, email: string): Promise<VoiceProfile> {
+    return await this.makeRequest<VoiceProfile>(API_CONFIG.ENDPOINTS.VOICE_PROFILES, {
+      method: 'POST',
+      body: JSON.stringify({ meetingId, speaker: label, email }),
+    });
+  }
+  
+  /**
+   * Delete an enrolled voice; the participant is no longer recognized
+   * 
+   * @param {string} email - Participant whose voice to forget
+   * @returns {Promise<{ message: string }>} Confirmation message
+   * @throws {Error} On request failure
+   */
+  async deleteVoiceProfile(email: string): Promise<{ message: string }> {
+    const endpoint = API_CONFIG.ENDPOINTS.VOICE_PROFILE.replace(':email', encodeURIComponent(email));
+    return await this.makeRequest<{ message: string }>(endpoint, { method: 'DELETE' });
+  }
+  
+  /**
+   * Get everyone and every link with access to a meeting
+   * 
+   * @param {string} meetingId - Meeting ID
+   * @returns {Promise<MeetingSharing>} Collaborators and active share links
+   * @throws {Error} On request failure
+   */
+  async getMeetingSharing(meetingId: string): Promise<MeetingSharing> {
+    const endpoint = API_CONFIG.ENDPOINTS.MEETING_SHARING.replace(':id', meetingId);
+    return await this.makeRequest<MeetingSharing>(endpoint, { method: 'GET' });
+  }
+  
+  /**
+   * Give a user access to a meeting. Only owners can share.
+   * 
+   * @param {string} meetingId - Meeting ID
+   * @param {string} email - User to invite
+   * @param {MeetingRole} role - Access level to grant
+   * @returns {Promise<MeetingCollaborator>} The new collaborator
+   * @throws {Error} On request failure
+   * 
+   * @example
+   * ```typescript
+   * await apiService.addCollaborator('meeting-123', 'mike.chen@company.com', 'editor');
+   * ```
+   */
+  async addCollaborator(meetingId: string, email: string, role: MeetingRole): Promise<MeetingCollaborator> {
+    const endpoint = API_CONFIG.ENDPOINTS.COLLABORATORS.replace(':id', meetingId);
+    return await this.makeRequest<MeetingCollaborator>(endpoint, {
+      method: 'POST',
+      body: JSON.stringify({ email, role }),
+    });
+  }
+  
+  /**
+   * Change a collaborator's access level
+   * 
+   * @param {string} meetingId - Meeting ID
+   * @param {string} email - Collaborator's email
+   * @param {MeetingRole} role - New access level
+   * @returns {Promise<MeetingCollaborator>} The updated collaborator
+   * @throws {Error} On request failure
+   */
+  async updateCollaborator(meetingId: string, email: string, role: MeetingRole): Promise<MeetingCollaborator> {
+    const endpoint = API_CONFIG.ENDPOINTS.COLLABORATOR
+      .replace(':id', meetingId)
+      .replace(':email', encodeURIComponent(email));
+    return await this.makeRequest<MeetingCollaborator>(endpoint, {
+      method: 'PATCH',
+      body: JSON.stringify({ role }),
+    });
+  }
+  
+  /**
+   * Remove a user's access to a meeting
+   * 
+   * @param {string} meetingId - Meeting ID
+   * @param {string} email - Collaborator's email
+   * @returns {Promise<{ message: string }>} Confirmation message
+   * @throws {Error} On request failure
+   */
+  async removeCollaborator(meetingId: string, email: string): Promise<{ message: string }> {
+    const endpoint = API_CONFIG.ENDPOINTS.COLLABORATOR
+      .replace(':id', meetingId)
+      .replace(':email', encodeURIComponent(email));
+    return await this.makeRequest<{ message: string }>(endpoint, { method: 'DELETE' });
+  }
+  
+  /**
+   * Create a read-only link to a meeting
+   * 
+   * @param {string} meetingId - Meeting ID
+   * @param {string | null} expiresAt - ISO date after which the link stops working, or null for never
+   * @returns {Promise<ShareLink>} The new link
+   * @throws {Error} On request failure
+   * 
+   * @example
+   * ```typescript
+   * const link = await apiService.createShareLink('meeting-123', '2024-02-01T00:00:00.000Z');
+   * await navigator.clipboard.writeText(link.url);
+   * ```
+   */
+  async createShareLink(meetingId: string, expiresAt: string | null = null): Promise<ShareLink> {
+    const endpoint = API_CONFIG.ENDPOINTS.SHARE_LINKS.replace(':id', meetingId);
+    return await this.makeRequest<ShareLink>(endpoint, {
+      method: 'POST',
+      body: JSON.stringify({ expiresAt }),
+    });
+  }
+  
+  /**
+   * Revoke a share link. Anyone holding it loses access immediately.
+   * 
+   * @param {string} meetingId - Meeting ID
+   * @param {string} linkId - Share link ID
+   * @returns {Promise<{ message: string }>} Confirmation message
+   * @throws {Error} On request failure
+   */
+  async revokeShareLink(meetingId: string, linkId: string): Promise<{ message: string }> {
+    const endpoint = API_CONFIG.ENDPOINTS.SHARE_LINK
+      .replace(':id', meetingId)
+      .replace(':linkId', linkId);
+    return await this.makeRequest<{ message: string }>(endpoint, { method: 'DELETE' });
+  }
+  
+  /**
+   * Load a meeting through a public share link. Does not require login.
+   * 
+   * @param {string} token - Token from the /share/:token URL
+   * @returns {Promise<SharedMeeting>} The shared meeting content
+   * @throws {ApiError} 404 when the link is unknown, revoked or expired
+   */
+  async getSharedMeeting(token: string): Promise<SharedMeeting> {
+    const endpoint = API_CONFIG.ENDPOINTS.SHARED_MEETING.replace(':token', encodeURIComponent(token));
+    return await this.makeRequest<SharedMeeting>(endpoint, { method: 'GET' }, false);
+  }
+  
+  /**
+   * Change how a meeting's summary is emailed
+   * 
+   * @param {string} meetingId - Meeting ID
+   * @param {Partial<SummaryEmailSettings>} settings - Settings to change
+   * @returns {Promise<SummaryEmailSettings>} The saved settings
+   * @throws {Error} On request failure
+   * 
+   * @example
+   * ```typescript
+   * // Stop emailing one participant and send automatically to the rest
+   * await apiService.updateSummaryEmailSettings('meeting-123', {
+   *   autoSend: true,
+   *   excludedRecipients: ['external@partner.com']
+   * });
+   * ```
+   */
+  async updateSummaryEmailSettings(
+    meetingId: string,
+    settings: Partial<SummaryEmailSettings>
+  ): Promise<SummaryEmailSettings> {
+    const endpoint = API_CONFIG.ENDPOINTS.SUMMARY_EMAIL_SETTINGS.replace(':id', meetingId);
+    return await this.makeRequest<SummaryEmailSettings>(endpoint, {
+      method: 'PATCH',
+      body: JSON.stringify(settings),
+    });
+  }
+  
+  /**
+   * Render the summary email without sending it
+   * 
+   * @param {string} meetingId - Meeting ID
+   * @param {Omit<SendSummaryEmailRequest, 'recipients'>} options - Sections and optional note
+   * @returns {Promise<SummaryEmailPreview>} Subject and HTML body
+   * @throws {Error} On request failure
+   */
+  async previewSummaryEmail(
+    meetingId: string,
+    options: Omit<SendSummaryEmailRequest, 'recipients'>
+  ): Promise<SummaryEmailPreview> {
+    const endpoint = API_CONFIG.ENDPOINTS.SUMMARY_EMAIL_PREVIEW.replace(':id', meetingId);
+    return await this.makeRequest<SummaryEmailPreview>(endpoint, {
+      method: 'POST',
+      body: JSON.stringify(options),
+    });
+  }
+  
+  /**
+   * Email the meeting summary to the given recipients now
+   * 
+   * @param {string} meetingId - Meeting ID
+   * @param {SendSummaryEmailRequest} request - Recipients, sections and optional note
+   * @returns {Promise<EmailDelivery[]>} One queued delivery per recipient
+   * @throws {Error} On request failure
+   * 
+   * @example
+   * ```typescript
+   * const deliveries = await apiService.sendSummaryEmail('meeting-123', {
+   *   recipients: ['sarah@company.com', 'mike@company.com'],
+   *   includeHighlights: true,
+   *   includeActionItems: true,
+   *   message: 'Notes from today, please check your action items.'
+   * });
+   * ```
+   */
+  async sendSummaryEmail(meetingId: string, request: SendSummaryEmailRequest): Promise<EmailDelivery[]> {
+    const endpoint = API_CONFIG.ENDPOINTS.SUMMARY_EMAIL.replace(':id', meetingId);
+    const deliveries = await this.makeRequest<EmailDelivery[]>(endpoint, {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+    console.log('Summary email queued for', deliveries.length, 'recipients');
+    return deliveries;
+  }
+  
+  /**
+   * Get the delivery log for a meeting's summary emails, newest first
+   * 
+   * @param {string} meetingId - Meeting ID
+   * @returns {Promise<EmailDelivery[]>} Sent, bounced and opened states per recipient
+   * @throws {Error} On request failure
+   */
+  async getEmailDeliveries(meetingId: string): Promise<EmailDelivery[]> {
+    const endpoint = API_CONFIG.ENDPOINTS.SUMMARY_EMAIL_DELIVERIES.replace(':id', meetingId);
+    return await this.makeRequest<EmailDelivery[]>(endpoint, { method: 'GET' });
   }
   
   /**
@@ -837,6 +1834,501 @@ class ApiService {
     return result;
   }
   
+  /**
+   * Get the current processing status of a meeting
+   * 
+   * Used as the polling fallback when the realtime event stream is unavailable.
+   * 
+   * @param {string} meetingId - Meeting ID to check
+   * @returns {Promise<MeetingStatusEvent>} Current status and pipeline stage
+   * @throws {Error} On request failure
+   */
+  async getMeetingStatus(meetingId: string): Promise<MeetingStatusEvent> {
+    const endpoint = API_CONFIG.ENDPOINTS.MEETING_STATUS.replace(':id', meetingId);
+    return await this.makeRequest<MeetingStatusEvent>(endpoint, { method: 'GET' });
+  }
+  
+  /**
+   * Subscribe to realtime processing status updates for one or more meetings
+   * 
+   * Opens a server-sent events stream that pushes status changes and pipeline
+   * stage progress. If the stream cannot connect (or the browser lacks
+   * EventSource), falls back to polling `getMeetingStatus` for each meeting.
+   * Meetings that reach 'completed' or 'failed' stop being tracked, and the
+   * subscription closes itself once none are left.
+   * 
+   * @param {string[]} meetingIds - Meetings to watch
+   * @param {function} onEvent - Called with every status update
+   * @param {MeetingStatusSubscriptionOptions} options - Subscription options
+   * @returns {() => void} Unsubscribe function
+   * 
+   * @example
+   * ```typescript
+   * const unsubscribe = apiService.subscribeToMeetingStatus(['meeting-123'], (event) => {
+   *   console.log(`${event.meetingId} is ${event.stage}`);
+   * });
+   * 
+   * // Later, e.g. on component unmount
+   * unsubscribe();
+   * ```
+   */
+  subscribeToMeetingStatus(
+    meetingIds: string[],
+    onEvent: (event: MeetingStatusEvent) => void,
+    options: MeetingStatusSubscriptionOptions = {}
+  ): () => void {
+    const pollInterval = options.pollInterval ?? 5000;
+    const pending = new Set(meetingIds);
+    let eventSource: EventSource | null = null;
+    let pollTimer: ReturnType<typeof setInterval> | null = null;
+    let closed = false;
+    
+    const close = () => {
+      closed = true;
+      eventSource?.close();
+      eventSource = null;
+      if (pollTimer) {
+        clearInterval(pollTimer);
+        pollTimer = null;
+      }
+    };
+    
+    const handleEvent = (event: MeetingStatusEvent) => {
+      if (closed || !pending.has(event.meetingId)) return;
+      onEvent(event);
+      
+      if (event.status !== 'processing') {
+        pending.delete(event.meetingId);
+        if (pending.size === 0) close();
+      }
+    };
+    
+    const startPolling = () => {
+      if (closed || pollTimer) return;
+      console.warn('Realtime status stream unavailable, falling back to polling');
+      
+      const poll = async () => {
+        for (const meetingId of Array.from(pending)) {
+          try {
+            handleEvent(await this.getMeetingStatus(meetingId));
+          } catch (error) {
+            console.error(`Failed to poll status for meeting ${meetingId}:`, error);
+          }
+        }
+      };
+      
+      poll();
+      pollTimer = setInterval(poll, pollInterval);
+    };
+    
+    if (pending.size === 0) {
+      return close;
+    }
+    
+    if (typeof EventSource === 'undefined') {
+      startPolling();
+      return close;
+    }
+    
+    // EventSource cannot send headers, so the access token goes in the query string
+    const queryParams = new URLSearchParams({ ids: meetingIds.join(',') });
+    const token = getAccessToken();
+    if (token) queryParams.append('access_token', token);
+    
+    let hasConnected = false;
+    eventSource = new EventSource(
+      `${API_CONFIG.BASE_URL}${API_CONFIG.ENDPOINTS.MEETING_EVENTS}?${queryParams.toString()}`
+    );
+    
+    eventSource.onopen = () => {
+      hasConnected = true;
+    };
+    
+    eventSource.onmessage = (message: MessageEvent<string>) => {
+      try {
+        handleEvent(JSON.parse(message.data) as MeetingStatusEvent);
+      } catch (error) {
+        console.error('Failed to parse meeting status event:', error);
+      }
+    };
+    
+    eventSource.onerror = () => {
+      // Once connected, EventSource reconnects on its own; only fall back
+      // if the stream never opened or the browser gave up on it
+      if (!hasConnected || eventSource?.readyState === EventSource.CLOSED) {
+        eventSource?.close();
+        eventSource = null;
+        startPolling();
+      }
+    };
+    
+    return close;
+  }
+  
+  // ========================================================================
+  // ACTION ITEM API METHODS
+  // ========================================================================
+  
+  /**
+   * Get all action items for a meeting
+   * 
+   * @param {string} meetingId - Meeting ID
+   * @returns {Promise<ActionItem[]>} The meeting's action items
+   * @throws {Error} On request failure
+   */
+  async getActionItems(meetingId: string): Promise<ActionItem[]> {
+    const endpoint = API_CONFIG.ENDPOINTS.ACTION_ITEMS.replace(':id', meetingId);
+    return await this.makeRequest<ActionItem[]>(endpoint, { method: 'GET' });
+  }
+  
+  /**
+   * Get action items across every meeting the user has access to
+   * 
+   * @param {ActionItemListParams} params - Optional assignee and status filters
+   * @returns {Promise<ActionItemWithMeeting[]>} Action items with their source meeting
+   * @throws {Error} On request failure
+   * 
+   * @example
+   * ```typescript
+   * const myOpenItems = await apiService.getAllActionItems({
+   *   assignee: 'sarah@company.com',
+   *   status: 'pending'
+   * });
+   * ```
+   */
+  async getAllActionItems(params: ActionItemListParams = {}): Promise<ActionItemWithMeeting[]> {
+    const queryParams = new URLSearchParams();
+    if (params.assignee) queryParams.append('assignee', params.assignee);
+    if (params.status) queryParams.append('status', params.status);
+    
+    const endpoint = `${API_CONFIG.ENDPOINTS.ALL_ACTION_ITEMS}?${queryParams.toString()}`;
+    return await this.makeRequest<ActionItemWithMeeting[]>(endpoint, { method: 'GET' });
+  }
+  
+  /**
+   * Add an action item to a meeting by hand
+   * 
+   * @param {string} meetingId - Meeting ID
+   * @param {CreateActionItemRequest} item - Task, optional assignee and due date
+   * @returns {Promise<ActionItem>} The created action item
+   * @throws {Error} On request failure
+   * 
+   * @example
+   * ```typescript
+   * const item = await apiService.createActionItem('meeting-123', {
+   *   task: 'Send the revised budget to finance',
+   *   assignee: 'alex@company.com',
+   *   deadline: '2024-12-20'
+   * });
+   * ```
+   */
+  async createActionItem(meetingId: string, item: CreateActionItemRequest): Promise<ActionItem> {
+    const endpoint = API_CONFIG.ENDPOINTS.ACTION_ITEMS.replace(':id', meetingId);
+    return await this.makeRequest<ActionItem>(endpoint, {
+      method: 'POST',
+      body: JSON.stringify(item),
+    });
+  }
+  
+  /**
+   * Update an action item's task, assignee, due date or status
+   * 
+   * @param {string} meetingId - Meeting ID
+   * @param {string} itemId - Action item ID
+   * @param {UpdateActionItemRequest} updates - Fields to change
+   * @returns {Promise<ActionItem>} The updated action item
+   * @throws {Error} On request failure
+   * 
+   * @example
+   * ```typescript
+   * await apiService.updateActionItem('meeting-123', 'item-1', { status: 'completed' });
+   * ```
+   */
+  async updateActionItem(
+    meetingId: string,
+    itemId: string,
+    updates: UpdateActionItemRequest
+  ): Promise<ActionItem> {
+    const endpoint = API_CONFIG.ENDPOINTS.ACTION_ITEM
+      .replace(':id', meetingId)
+      .replace(':itemId', itemId);
+    return await this.makeRequest<ActionItem>(endpoint, {
+      method: 'PATCH',
+      body: JSON.stringify(updates),
+    });
+  }
+  
+  /**
+   * Delete an action item
+   * 
+   * @param {string} meetingId - Meeting ID
+   * @param {string} itemId - Action item ID
+   * @returns {Promise<{ message: string }>} Confirmation message
+   * @throws {Error} On request failure
+   */
+  async deleteActionItem(meetingId: string, itemId: string): Promise<{ message: string }> {
+    const endpoint = API_CONFIG.ENDPOINTS.ACTION_ITEM
+      .replace(':id', meetingId)
+      .replace(':itemId', itemId);
+    return await this.makeRequest<{ message: string }>(endpoint, { method: 'DELETE' });
+  }
+  
+  // ========================================================================
+  // MEETING CHAT API METHODS
+  // ========================================================================
+  
+  /**
+   * Ask the AI assistant a question about a meeting and stream the answer
+   * 
+   * The endpoint responds with server-sent events; each `data:` line holds
+   * a JSON `ChatStreamEvent`. Tokens are delivered to `onEvent` as they
+   * arrive so the answer can be rendered incrementally, and `citation`
+   * events link the answer's `[n]` markers to transcript segments.
+   * 
+   * @param {string} meetingId - Meeting the question is about
+   * @param {MeetingChatRequest} request - The question and prior conversation
+   * @param {function} onEvent - Called with every streamed event
+   * @param {AbortSignal} signal - Stops generation when aborted (optional)
+   * @returns {Promise<void>} Resolves when the stream ends
+   * @throws {Error} On request failure or a streamed error event
+   * 
+   * @example
+   * ```typescript
+   * const controller = new AbortController();
+   * let answer = '';
+   * await apiService.streamMeetingChat(
+   *   'meeting-123',
+   *   { question: 'What did we decide about the budget?', history: [] },
+   *   (event) => {
+   *     if (event.type === 'token') answer += event.content;
+   *   },
+   *   controller.signal
+   * );
+   * ```
+   */
+  async streamMeetingChat(
+    meetingId: string,
+    request: MeetingChatRequest,
+    onEvent: (event: ChatStreamEvent) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const endpoint = API_CONFIG.ENDPOINTS.MEETING_CHAT.replace(':id', meetingId);
+    const response = await this.fetchWithAuth(endpoint, {
+      method: 'POST',
+      headers: { 'Accept': 'text/event-stream' },
+      body: JSON.stringify(request),
+      signal,
+    });
+    
+    if (!response.body) {
+      throw new Error('Streaming responses are not supported by this browser');
+    }
+    
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    
+    const dispatch = (line: string) => {
+      if (!line.startsWith('data:')) return;
+      const payload = line.slice(5).trim();
+      if (!payload || payload === '[DONE]') return;
+      
+      const event = JSON.parse(payload) as ChatStreamEvent;
+      if (event.type === 'error') {
+        throw new Error(event.message);
+      }
+      onEvent(event);
+    };
+    
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      lines.forEach(dispatch);
+    }
+    
+    // Flush a final event that was not newline-terminated
+    dispatch(buffer + decoder.decode());
+  }
+  
+  // ========================================================================
+  // LIVE TRANSCRIPTION API METHODS
+  // ========================================================================
+  
+  /**
+   * Open a live transcription stream for a recording in progress
+   * 
+   * Audio chunks are sent over a WebSocket as binary messages, in recording
+   * order, and the server pushes back partial and final transcript segments
+   * timed from the start of the audio it received. A dropped connection
+   * isn't resumed: the container header only goes out with the first chunk,
+   * so the server couldn't decode a stream picked up halfway. Callers should
+   * treat the live transcript as incomplete after an error.
+   * 
+   * @param {string} mimeType - Recorder output type, e.g. 'audio/webm;codecs=opus'
+   * @param {function} onEvent - Called with every transcript event
+   * @returns {LiveTranscriptionConnection} Stream to send audio to
+   * 
+   * @example
+   * ```typescript
+   * const live = apiService.openLiveTranscription(recorder.mimeType, (event) => {
+   *   if (event.type === 'final') console.log(event.segment.speaker, event.segment.text);
+   * });
+   * recorder.ondataavailable = (event) => live.sendAudio(event.data);
+   * 
+   * // After the recorder stops
+   * await live.finish();
+   * ```
+   */
+  openLiveTranscription(
+    mimeType: string,
+    onEvent: (event: LiveTranscriptEvent) => void
+  ): LiveTranscriptionConnection {
+    const finishTimeout = 10000;
+    const pending: Blob[] = [];
+    let finished: (() => void) | null = null;
+    let closed = false;
+    
+    // WebSockets cannot send headers either, so the token goes in the query string
+    const url = new URL(`${API_CONFIG.BASE_URL}${API_CONFIG.ENDPOINTS.LIVE_TRANSCRIPTION}`, window.location.href);
+    url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+    url.searchParams.set('mimeType', mimeType);
+    const token = getAccessToken();
+    if (token) url.searchParams.set('access_token', token);
+    
+    const socket = new WebSocket(url.toString());
+    
+    const close = () => {
+      closed = true;
+      socket.close();
+      finished?.();
+      finished = null;
+    };
+    
+    socket.onopen = () => {
+      pending.splice(0).forEach(chunk => socket.send(chunk));
+    };
+    
+    socket.onmessage = (message: MessageEvent<string>) => {
+      let event: LiveTranscriptEvent;
+      try {
+        event = JSON.parse(message.data) as LiveTranscriptEvent;
+      } catch (error) {
+        console.error('Failed to parse live transcript event:', error);
+        return;
+      }
+      onEvent(event);
+      if (event.type === 'done' || event.type === 'error') close();
+    };
+    
+    socket.onclose = () => {
+      if (!closed) {
+        onEvent({ type: 'error', message: 'Live transcription connection lost' });
+        close();
+      }
+    };
+    
+    return {
+      sendAudio(chunk) {
+        if (closed) return;
+        if (socket.readyState === WebSocket.OPEN) socket.send(chunk);
+        else pending.push(chunk);
+      },
+      finish() {
+        if (closed) return Promise.resolve();
+        return new Promise((resolve) => {
+          const timer = setTimeout(() => {
+            onEvent({ type: 'error', message: 'Live transcription did not finish in time' });
+            close();
+          }, finishTimeout);
+          finished = () => {
+            clearTimeout(timer);
+            resolve();
+          };
+          const sendEnd = () => socket.send(JSON.stringify({ type: 'end' }));
+          if (socket.readyState === WebSocket.OPEN) sendEnd();
+          else socket.addEventListener('open', sendEnd);
+        });
+      },
+      close,
+    };
+  }
+  
+  // ========================================================================
+  // CALENDAR API METHODS
+  // ========================================================================
+  
+  /**
+   * Get the calendar accounts the user has connected
+   * 
+   * @returns {Promise<CalendarConnection[]>} Connected Google, Microsoft and CalDAV calendars
+   * @throws {Error} On request failure
+   */
+  async getCalendarConnections(): Promise<CalendarConnection[]> {
+    return await this.makeRequest<CalendarConnection[]>(
+      API_CONFIG.ENDPOINTS.CALENDAR_CONNECTIONS,
+      { method: 'GET' }
+    );
+  }
+  
+  /**
+   * Connect a calendar account
+   * 
+   * Google and Microsoft return an `authUrl` to complete OAuth consent;
+   * the provider then redirects back to `redirectUri`. CalDAV accounts are
+   * verified with the given credentials and connected immediately.
+   * 
+   * @param {CalendarProviderId} provider - Calendar service to connect
+   * @param {CalDavCredentials} credentials - Required for CalDAV only
+   * @returns {Promise<CalendarConnectResult>} OAuth URL or the new connection
+   * @throws {Error} On request failure or invalid CalDAV credentials
+   * 
+   * @example
+   * ```typescript
+   * const { authUrl } = await apiService.connectCalendar('google');
+   * if (authUrl) window.location.assign(authUrl);
+   * ```
+   */
+  async connectCalendar(provider: CalendarProviderId, credentials?: CalDavCredentials): Promise<CalendarConnectResult> {
+    return await this.makeRequest<CalendarConnectResult>(
+      API_CONFIG.ENDPOINTS.CALENDAR_CONNECTIONS,
+      {
+        method: 'POST',
+        body: JSON.stringify({ provider, credentials, redirectUri: window.location.href }),
+      }
+    );
+  }
+  
+  /**
+   * Disconnect a calendar account
+   * 
+   * @param {string} connectionId - Calendar connection ID
+   * @returns {Promise<{ message: string }>} Confirmation message
+   * @throws {Error} On request failure
+   */
+  async disconnectCalendar(connectionId: string): Promise<{ message: string }> {
+    const endpoint = API_CONFIG.ENDPOINTS.CALENDAR_CONNECTION.replace(':id', connectionId);
+    return await this.makeRequest<{ message: string }>(endpoint, { method: 'DELETE' });
+  }
+  
+  /**
+   * Get events from a connected calendar, with recurring events expanded
+   * 
+   * @param {string} connectionId - Calendar connection ID
+   * @param {Date} start - Start of the range (inclusive)
+   * @param {Date} end - End of the range (exclusive)
+   * @returns {Promise<RemoteCalendarEvent[]>} Events starting within the range
+   * @throws {Error} On request failure
+   */
+  async getCalendarEvents(connectionId: string, start: Date, end: Date): Promise<RemoteCalendarEvent[]> {
+    const queryParams = new URLSearchParams({ start: start.toISOString(), end: end.toISOString() });
+    const endpoint = `${API_CONFIG.ENDPOINTS.CALENDAR_EVENTS.replace(':id', connectionId)}?${queryParams.toString()}`;
+    return await this.makeRequest<RemoteCalendarEvent[]>(endpoint, { method: 'GET' });
+  }
+  
   // ========================================================================
   // FILE UPLOAD API METHODS
   // ========================================================================
@@ -844,10 +2336,19 @@ class ApiService {
   /**
    * Upload a meeting recording file
    * 
+   * Uses a resumable, part-numbered chunked upload: a session is created on
+   * the server, each chunk is PUT individually with retries and exponential
+   * backoff, and the session is completed once every chunk has arrived.
+   * Session state is kept in localStorage, so selecting the same file again
+   * after a reload or network failure resumes from the chunks the server
+   * already has instead of starting over.
+   * 
    * @param {File | Blob} recordingFile - Audio/video recording file
-   * @param {function} onProgress - Progress callback (optional)
+   * @param {function} onProgress - Progress callback, 0-100 (optional)
+   * @param {AbortSignal} signal - Cancels the upload when aborted (optional)
+   * @param {string} recordingId - Stored recording the file came from, so a Blob can be resumed (optional)
    * @returns {Promise<{ fileUrl: string; fileId: string }>} Upload result
-   * @throws {Error} On upload failure
+   * @throws {Error} On upload failure after all retries
    * 
    * @example
    * ```typescript
@@ -859,48 +2360,204 @@ class ApiService {
    */
   async uploadRecording(
     recordingFile: File | Blob,
-    onProgress?: (progress: number) => void
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal,
+    recordingId?: string
   ): Promise<{ fileUrl: string; fileId: string }> {
-    const formData = new FormData();
-    formData.append('recording', recordingFile);
+    const fingerprint = getFileFingerprint(recordingFile, recordingId);
+    const session = await this.resolveUploadSession(recordingFile, fingerprint);
+    
+    const totalChunks = Math.max(1, Math.ceil(recordingFile.size / session.chunkSize));
+    const received = new Set(session.receivedChunks);
+    let uploadedBytes = 0;
+    
+    for (const index of received) {
+      uploadedBytes += Math.min(session.chunkSize, recordingFile.size - index * session.chunkSize);
+    }
     
-    // Create XMLHttpRequest for progress tracking
+    const reportProgress = (inFlightBytes: number) => {
+      if (!onProgress || recordingFile.size === 0) return;
+      onProgress(Math.min(100, Math.round(((uploadedBytes + inFlightBytes) / recordingFile.size) * 100)));
+    };
+    
+    if (received.size > 0) {
+      console.log(`Resuming upload ${session.uploadId}: ${received.size}/${totalChunks} chunks already stored`);
+    }
+    reportProgress(0);
+    
+    for (let index = 0; index < totalChunks; index++) {
+      if (received.has(index)) continue;
+      
+      const chunk = recordingFile.slice(index * session.chunkSize, (index + 1) * session.chunkSize);
+      await this.uploadChunkWithRetry(session.uploadId, index, chunk, reportProgress, signal);
+      uploadedBytes += chunk.size;
+      reportProgress(0);
+    }
+    
+    const endpoint = API_CONFIG.ENDPOINTS.UPLOAD_COMPLETE.replace(':id', session.uploadId);
+    const result = await this.makeRequest<{ fileUrl: string; fileId: string }>(
+      endpoint,
+      { method: 'POST', body: JSON.stringify({ totalChunks }), signal }
+    );
+    
+    if (fingerprint) saveUploadState(fingerprint, null);
+    console.log('Recording uploaded:', result.fileId);
+    return result;
+  }
+  
+  /**
+   * Find a resumable session for this file, or create a new one
+   * 
+   * @private
+   * @param {File | Blob} file - File being uploaded
+   * @param {string | null} fingerprint - File fingerprint used as the storage key; null to never resume
+   * @returns {Promise<UploadSession>} Session with the chunks already received
+   */
+  private async resolveUploadSession(file: File | Blob, fingerprint: string | null): Promise<UploadSession> {
+    const stored = fingerprint ? loadUploadStates()[fingerprint] : undefined;
+    
+    if (fingerprint && stored && stored.fileSize === file.size) {
+      try {
+        const endpoint = API_CONFIG.ENDPOINTS.UPLOAD_SESSION.replace(':id', stored.uploadId);
+        return await this.makeRequest<UploadSession>(endpoint, { method: 'GET' });
+      } catch (error) {
+        console.warn('Stored upload session is no longer valid, starting a new one:', error);
+        saveUploadState(fingerprint, null);
+      }
+    }
+    
+    const session = await this.makeRequest<UploadSession>(
+      API_CONFIG.ENDPOINTS.UPLOAD_SESSIONS,
+      {
+        method: 'POST',
+        body: JSON.stringify({
+          fileName: file instanceof File ? file.name : 'recording',
+          fileSize: file.size,
+          mimeType: file.type,
+          chunkSize: UPLOAD_CONFIG.CHUNK_SIZE,
+        }),
+      }
+    );
+    
+    if (fingerprint) {
+      saveUploadState(fingerprint, {
+        uploadId: session.uploadId,
+        chunkSize: session.chunkSize,
+        fileSize: file.size,
+        createdAt: Date.now(),
+      });
+    }
+    
+    return { ...session, receivedChunks: session.receivedChunks ?? [] };
+  }
+  
+  /**
+   * Upload a single chunk, retrying with exponential backoff on failure
+   * 
+   * @private
+   * @param {string} uploadId - Upload session ID
+   * @param {number} index - Zero-based chunk index
+   * @param {Blob} chunk - Chunk data
+   * @param {function} onChunkProgress - Called with bytes sent for this chunk
+   * @param {AbortSignal} signal - Optional abort signal
+   * @throws {ApiError} Right away on a client error other than 401, 408 or 429
+   * @throws {Error} When every attempt fails or the upload is cancelled
+   */
+  private async uploadChunkWithRetry(
+    uploadId: string,
+    index: number,
+    chunk: Blob,
+    onChunkProgress: (bytes: number) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await this.sendChunk(uploadId, index, chunk, onChunkProgress, signal);
+        return;
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        
+        // Client errors such as an expired session (404), an oversized chunk
+        // (413) or a forbidden upload (403) would fail the same way again,
+        // so only 401 (refresh and retry), timeouts and rate limits retry
+        const status = error instanceof ApiError ? error.status : 0;
+        if (status >= 400 && status < 500 && status !== 401 && status !== 408 && status !== 429) {
+          throw new ApiError(`Upload failed at chunk ${index + 1} with status ${status}`, status);
+        }
+        if (attempt + 1 >= UPLOAD_CONFIG.MAX_CHUNK_RETRIES) {
+          throw new Error(`Upload failed at chunk ${index + 1}. Select the file again to resume.`);
+        }
+        
+        console.warn(`Chunk ${index} failed (attempt ${attempt + 1}), retrying:`, error);
+        onChunkProgress(0);
+        if (status === 401) {
+          await this.refreshAccessToken();
+          continue;
+        }
+        await delay(UPLOAD_CONFIG.RETRY_BASE_DELAY * 2 ** attempt, signal);
+      }
+    }
+  }
+  
+  /**
+   * PUT one chunk with XMLHttpRequest so byte-level progress is available
+   * 
+   * @private
+   */
+  private sendChunk(
+    uploadId: string,
+    index: number,
+    chunk: Blob,
+    onChunkProgress: (bytes: number) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
     return new Promise((resolve, reject) => {
       const xhr = new XMLHttpRequest();
+      const endpoint = API_CONFIG.ENDPOINTS.UPLOAD_CHUNK
+        .replace(':id', uploadId)
+        .replace(':index', index.toString());
       
       // Track upload progress
-      if (onProgress) {
-        xhr.upload.addEventListener('progress', (event) => {
-          if (event.lengthComputable) {
-            const progress = Math.round((event.loaded / event.total) * 100);
-            onProgress(progress);
-          }
-        });
-      }
+      xhr.upload.addEventListener('progress', (event) => {
+        onChunkProgress(event.loaded);
+      });
+      
+      // Abort the request when the shared upload signal fires; the listener
+      // is removed once this chunk settles so it doesn't pile up per chunk
+      const abortRequest = () => xhr.abort();
+      const removeAbortListener = () => signal?.removeEventListener('abort', abortRequest);
       
       // Handle completion
       xhr.addEventListener('load', () => {
+        removeAbortListener();
         if (xhr.status >= 200 && xhr.status < 300) {
-          try {
-            const response = JSON.parse(xhr.responseText);
-            resolve(response.data || response);
-          } catch (error) {
-            reject(new Error('Failed to parse upload response'));
-          }
+          resolve();
         } else {
-          reject(new Error(`Upload failed with status ${xhr.status}`));
+          reject(new ApiError(`Chunk upload failed with status ${xhr.status}`, xhr.status));
         }
       });
       
-      // Handle errors
+      // Handle errors and cancellation
       xhr.addEventListener('error', () => {
-        reject(new Error('Upload failed due to network error'));
+        removeAbortListener();
+        reject(new Error('Chunk upload failed due to network error'));
       });
+      xhr.addEventListener('abort', () => {
+        removeAbortListener();
+        reject(new DOMException('Upload cancelled', 'AbortError'));
+      });
+      
+      if (signal?.aborted) {
+        reject(new DOMException('Upload cancelled', 'AbortError'));
+        return;
+      }
+      signal?.addEventListener('abort', abortRequest, { once: true });
       
       // Send request
-      xhr.open('POST', `${API_CONFIG.BASE_URL}${API_CONFIG.ENDPOINTS.UPLOAD_RECORDING}`);
+      xhr.open('PUT', `${API_CONFIG.BASE_URL}${endpoint}`);
       xhr.setRequestHeader('Authorization', `Bearer ${getAccessToken()}`);
-      xhr.send(formData);
+      xhr.setRequestHeader('Content-Type', 'application/octet-stream');
+      xhr.send(chunk);
     });
   }
   
@@ -1041,13 +2698,56 @@ export type {
   LoginCredentials,
   RegisterData,
   UserProfile,
+  TranscriptSegment,
+  TranscriptEdit,
+  TranscriptRevision,
+  ActionItem,
+  CreateActionItemRequest,
+  UpdateActionItemRequest,
+  ActionItemWithMeeting,
+  ActionItemListParams,
   Meeting,
+  MeetingBookmark,
+  MeetingSpeaker,
+  VoiceProfile,
+  MeetingRole,
+  MeetingCollaborator,
+  ShareLink,
+  MeetingSharing,
+  SharedMeeting,
+  SummaryEmailSettings,
+  SummaryEmailPreview,
+  SendSummaryEmailRequest,
+  EmailDelivery,
+  ProcessingStage,
+  MeetingStatusEvent,
+  MeetingStatusSubscriptionOptions,
+  MeetingListParams,
+  MeetingListResponse,
+  MeetingStats,
+  SearchParams,
+  SearchHit,
+  SearchResponse,
   CreateMeetingRequest,
+  ChatTurn,
+  MeetingChatRequest,
+  TranscriptCitation,
+  ChatStreamEvent,
+  LiveTranscriptEvent,
+  LiveTranscriptionConnection,
+  UploadSession,
+  StoredUploadState,
+  CalendarProviderId,
+  CalendarConnection,
+  CalDavCredentials,
+  CalendarConnectResult,
+  RemoteCalendarEvent,
   UserSettings,
 };
 
 // Export utility functions for advanced use cases
 export {
+  ApiError,
   getAccessToken,
   getRefreshToken,
   clearAuthData,
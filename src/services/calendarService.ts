@@ -0,0 +1,219 @@
+/**
+ * Calendar Service
+ *
+ * Gathers calendar events from every source the user has set up, so new
+ * meetings can be prefilled with a title, time and attendees:
+ * - .ics files imported on this device, stored locally and usable offline
+ * - Google, Microsoft and CalDAV accounts, connected through the backend
+ *
+ * Each source is a `CalendarProvider`; adding one means implementing
+ * `getEvents` and returning it from `getCalendarProviders`.
+ */
+
+import { apiService, type CalendarConnection, type CalendarProviderId } from './apiService';
+import { expandOccurrences, parseIcs } from '@/lib/ics';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Where a calendar event came from
+ */
+type CalendarSource = 'ics' | CalendarProviderId;
+
+/**
+ * A calendar event that can prefill a meeting
+ */
+interface CalendarEvent {
+  id: string;
+  title: string;
+  start: Date;
+  end?: Date;
+  attendees: string[]; // emails
+  location?: string;
+  source: CalendarSource;
+}
+
+/**
+ * A source of calendar events
+ */
+interface CalendarProvider {
+  id: string;
+  source: CalendarSource;
+  label: string;
+  getEvents(rangeStart: Date, rangeEnd: Date): Promise<CalendarEvent[]>;
+}
+
+/**
+ * An .ics file imported on this device
+ */
+interface ImportedCalendar {
+  id: string;
+  name: string; // original file name
+  importedAt: string;
+  content: string; // raw iCalendar text, parsed on demand
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const STORAGE_KEYS = {
+  IMPORTED_CALENDARS: 'meetingSummarizer_importedCalendars',
+} as const;
+
+export const CALENDAR_PROVIDER_LABELS: Record<CalendarSource, string> = {
+  ics: 'Imported calendar',
+  google: 'Google Calendar',
+  microsoft: 'Microsoft Outlook',
+  caldav: 'CalDAV',
+};
+
+// ============================================================================
+// IMPORTED .ICS CALENDARS
+// ============================================================================
+
+/**
+ * List the .ics calendars imported on this device
+ */
+export function getImportedCalendars(): ImportedCalendar[] {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEYS.IMPORTED_CALENDARS) ?? '[]');
+  } catch {
+    return [];
+  }
+}
+
+const saveImportedCalendars = (calendars: ImportedCalendar[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEYS.IMPORTED_CALENDARS, JSON.stringify(calendars));
+  } catch {
+    throw new Error('This calendar is too large to store on this device.');
+  }
+};
+
+/**
+ * Import an .ics file. Re-importing a file with the same name replaces it.
+ *
+ * @throws {Error} If the file contains no events or can't be stored
+ */
+export async function importIcsFile(file: File): Promise<{ calendar: ImportedCalendar; eventCount: number }> {
+  const content = await file.text();
+  const eventCount = parseIcs(content).length;
+  if (eventCount === 0) {
+    throw new Error(`No events were found in ${file.name}.`);
+  }
+
+  const calendar: ImportedCalendar = {
+    id: `ics_${Date.now()}`,
+    name: file.name,
+    importedAt: new Date().toISOString(),
+    content,
+  };
+  saveImportedCalendars([
+    ...getImportedCalendars().filter(existing => existing.name !== file.name),
+    calendar,
+  ]);
+  return { calendar, eventCount };
+}
+
+/**
+ * Remove an imported calendar from this device
+ */
+export function removeImportedCalendar(calendarId: string): void {
+  saveImportedCalendars(getImportedCalendars().filter(calendar => calendar.id !== calendarId));
+}
+
+const createIcsProvider = (calendar: ImportedCalendar): CalendarProvider => ({
+  id: calendar.id,
+  source: 'ics',
+  label: calendar.name,
+  async getEvents(rangeStart, rangeEnd) {
+    const parsed = parseIcs(calendar.content);
+
+    // Changed occurrences replace the original occurrence of the series
+    const overrides = parsed.filter(event => event.recurrenceId !== undefined);
+    const events = parsed.filter(event => event.recurrenceId === undefined).map(event => ({
+      ...event,
+      exdates: [
+        ...event.exdates,
+        ...overrides.filter(override => override.uid === event.uid).map(override => override.recurrenceId!),
+      ],
+    }));
+
+    return [...events, ...overrides].flatMap(event =>
+      expandOccurrences(event, rangeStart, rangeEnd).map(occurrence => ({
+        id: `${calendar.id}:${event.uid}:${occurrence.start.getTime()}`,
+        title: event.summary,
+        start: occurrence.start,
+        end: occurrence.end,
+        attendees: event.attendees,
+        location: event.location,
+        source: 'ics' as const,
+      }))
+    );
+  },
+});
+
+// ============================================================================
+// CONNECTED ACCOUNTS
+// ============================================================================
+
+const createRemoteProvider = (connection: CalendarConnection): CalendarProvider => ({
+  id: connection.id,
+  source: connection.provider,
+  label: `${CALENDAR_PROVIDER_LABELS[connection.provider]} (${connection.accountName})`,
+  async getEvents(rangeStart, rangeEnd) {
+    const events = await apiService.getCalendarEvents(connection.id, rangeStart, rangeEnd);
+    return events.map(event => ({
+      id: `${connection.id}:${event.id}`,
+      title: event.title,
+      start: new Date(event.start),
+      end: event.end ? new Date(event.end) : undefined,
+      attendees: event.attendees,
+      location: event.location,
+      source: connection.provider,
+    }));
+  },
+});
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Every calendar source available to the user
+ */
+export function getCalendarProviders(connections: CalendarConnection[] = []): CalendarProvider[] {
+  return [
+    ...getImportedCalendars().map(createIcsProvider),
+    ...connections.map(createRemoteProvider),
+  ];
+}
+
+/**
+ * Events from all calendars starting within the range, earliest first.
+ *
+ * Connected accounts are looked up through the backend; when that fails
+ * (e.g. offline), events from imported calendars are still returned.
+ */
+export async function getCalendarEvents(rangeStart: Date, rangeEnd: Date): Promise<CalendarEvent[]> {
+  const connections = await apiService.getCalendarConnections().catch((error) => {
+    console.warn('Calendar connections unavailable:', error);
+    return [];
+  });
+
+  const results = await Promise.allSettled(
+    getCalendarProviders(connections).map(provider => provider.getEvents(rangeStart, rangeEnd))
+  );
+  results.forEach(result => {
+    if (result.status === 'rejected') console.warn('Failed to load calendar events:', result.reason);
+  });
+
+  return results
+    .flatMap(result => (result.status === 'fulfilled' ? result.value : []))
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+export type { CalendarSource, CalendarEvent, CalendarProvider, ImportedCalendar };
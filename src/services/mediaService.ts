@@ -0,0 +1,323 @@
+/**
+ * Media Service
+ *
+ * Checks recordings on this device before they're uploaded, using ffmpeg
+ * compiled to WebAssembly (downloaded on first use, run in its own worker):
+ * - probes duration, codec and channel count, and rejects files that are
+ *   corrupt, have no audio track or contain only silence
+ * - extracts just the audio track of video files as Opus, so a long screen
+ *   recording uploads as a few MB of audio instead of hundreds of MB of video
+ *
+ * If ffmpeg can't be loaded (e.g. offline), files are uploaded unchanged
+ * and the server does the checking.
+ */
+
+import type { FFmpeg } from '@ffmpeg/ffmpeg';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * What ffprobe found in a recording
+ */
+interface MediaProbe {
+  durationSeconds?: number; // missing for e.g. streamed WebM without a duration header
+  container: string;
+  audioCodec: string;
+  channels: number;
+  sampleRate?: number;
+  hasVideo: boolean;
+  maxVolumeDb?: number;
+}
+
+/**
+ * A recording that is ready to upload
+ */
+interface PreparedRecording {
+  file: File; // the original, or the extracted audio track
+  probe?: MediaProbe; // missing when ffmpeg couldn't be loaded
+  audioExtracted: boolean;
+}
+
+type MediaProbeErrorCode = 'corrupt' | 'no_audio' | 'empty' | 'silent';
+
+interface PrepareRecordingOptions {
+  onProgress?: (progress: number) => void; // 0-100, while extracting audio
+  signal?: AbortSignal;
+}
+
+// ffprobe -of json output, only the fields we read
+interface FFprobeOutput {
+  format?: { format_name?: string; duration?: string };
+  streams?: Array<{
+    codec_type?: string;
+    codec_name?: string;
+    channels?: number;
+    sample_rate?: string;
+    disposition?: { attached_pic?: number };
+  }>;
+}
+
+// ============================================================================
+// ERRORS
+// ============================================================================
+
+/**
+ * Error thrown when a recording isn't worth uploading
+ */
+class MediaProbeError extends Error {
+  code: MediaProbeErrorCode;
+
+  constructor(message: string, code: MediaProbeErrorCode) {
+    super(message);
+    this.name = 'MediaProbeError';
+    this.code = code;
+  }
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Peaks below this are treated as silence; digital silence reads around -91 dB
+const SILENCE_THRESHOLD_DB = -60;
+
+// Audio files are checked for silence over this much of their start
+const SILENCE_SAMPLE_SECONDS = 10 * 60;
+
+// Extracted audio: mono Opus at speech quality
+const EXTRACTED_AUDIO_BITRATE = '32k';
+
+// ============================================================================
+// FFMPEG
+// ============================================================================
+
+let ffmpegPromise: Promise<FFmpeg> | null = null;
+let jobQueue: Promise<unknown> = Promise.resolve();
+let jobCount = 0;
+
+/**
+ * Load ffmpeg once and reuse it. A failed load is retried on next use.
+ */
+const loadFFmpeg = (): Promise<FFmpeg> => {
+  if (!ffmpegPromise) {
+    ffmpegPromise = (async () => {
+      const [{ FFmpeg }, { default: coreURL }, { default: wasmURL }] = await Promise.all([
+        import('@ffmpeg/ffmpeg'),
+        import('@ffmpeg/core?url'),
+        import('@ffmpeg/core/wasm?url'),
+      ]);
+      const ffmpeg = new FFmpeg();
+      await ffmpeg.load({ coreURL, wasmURL });
+      return ffmpeg;
+    })();
+    ffmpegPromise.catch(() => {
+      ffmpegPromise = null;
+    });
+  }
+  return ffmpegPromise;
+};
+
+/**
+ * Run jobs one at a time; ffmpeg has a single worker and file system
+ */
+const runExclusive = <T>(job: () => Promise<T>): Promise<T> => {
+  const result = jobQueue.then(job, job);
+  jobQueue = result.catch(() => undefined);
+  return result;
+};
+
+/**
+ * Parse the "max_volume: -12.3 dB" line printed by the volumedetect filter
+ */
+const parseMaxVolume = (logs: string[]): number | undefined => {
+  const line = logs.find(message => message.includes('max_volume:'));
+  const match = line?.match(/max_volume:\s*(-?[\d.]+|-inf) dB/);
+  if (!match) return undefined;
+  return match[1] === '-inf' ? -Infinity : Number(match[1]);
+};
+
+const parseProbe = (output: FFprobeOutput): MediaProbe => {
+  const streams = output.streams ?? [];
+  const audio = streams.find(stream => stream.codec_type === 'audio');
+  if (!audio) {
+    throw new MediaProbeError('This file has no audio track to transcribe.', 'no_audio');
+  }
+
+  const duration = Number(output.format?.duration);
+  return {
+    durationSeconds: Number.isFinite(duration) ? duration : undefined,
+    container: output.format?.format_name ?? 'unknown',
+    audioCodec: audio.codec_name ?? 'unknown',
+    channels: audio.channels ?? 1,
+    sampleRate: audio.sample_rate ? Number(audio.sample_rate) : undefined,
+    // Cover art embedded in audio files shows up as a video stream
+    hasVideo: streams.some(stream => stream.codec_type === 'video' && !stream.disposition?.attached_pic),
+  };
+};
+
+const runPrepareJob = async (
+  ffmpeg: FFmpeg,
+  file: File,
+  { onProgress, signal }: PrepareRecordingOptions
+): Promise<PreparedRecording> => {
+  const { FFFSType } = await import('@ffmpeg/ffmpeg');
+  const jobId = ++jobCount;
+  const inputDir = `/input-${jobId}`;
+  const input = `${inputDir}/${file.name}`;
+  const probeOutput = `/probe-${jobId}.json`;
+  const audioOutput = `/audio-${jobId}.webm`;
+
+  let probe: MediaProbe | undefined;
+  const logs: string[] = [];
+  const handleLog = ({ message }: { message: string }) => logs.push(message);
+  const handleProgress = ({ time }: { time: number }) => {
+    if (probe?.durationSeconds) {
+      // `time` is in microseconds of output written
+      onProgress?.(Math.min(100, Math.round((time / 1_000_000 / probe.durationSeconds) * 100)));
+    }
+  };
+
+  // Mount rather than copy, so large files aren't read into memory
+  await ffmpeg.createDir(inputDir);
+  await ffmpeg.mount(FFFSType.WORKERFS, { files: [file] }, inputDir);
+  ffmpeg.on('log', handleLog);
+  ffmpeg.on('progress', handleProgress);
+
+  try {
+    const probeExitCode = await ffmpeg.ffprobe(
+      ['-v', 'error', '-show_format', '-show_streams', '-of', 'json', input, '-o', probeOutput],
+      undefined,
+      { signal }
+    );
+    let output: FFprobeOutput | null = null;
+    try {
+      output = JSON.parse((await ffmpeg.readFile(probeOutput, 'utf8')) as string);
+    } catch {
+      // No readable output means ffprobe couldn't parse the file
+    }
+    if (probeExitCode !== 0 || !output?.format) {
+      throw new MediaProbeError(
+        `${file.name} couldn't be read. It may be corrupt or incomplete.`,
+        'corrupt'
+      );
+    }
+
+    probe = parseProbe(output);
+    if (probe.durationSeconds === 0) {
+      throw new MediaProbeError(`${file.name} is empty.`, 'empty');
+    }
+
+    // Video: keep only the audio, measuring its volume along the way.
+    // Audio: just measure the volume of its first minutes.
+    logs.length = 0;
+    const exitCode = probe.hasVideo
+      ? await ffmpeg.exec(
+          ['-i', input, '-map', '0:a:0', '-vn', '-af', 'volumedetect', '-ac', '1',
+            '-c:a', 'libopus', '-b:a', EXTRACTED_AUDIO_BITRATE, audioOutput],
+          undefined,
+          { signal }
+        )
+      : await ffmpeg.exec(
+          ['-i', input, '-t', String(SILENCE_SAMPLE_SECONDS), '-map', '0:a:0', '-af', 'volumedetect', '-f', 'null', '-'],
+          undefined,
+          { signal }
+        );
+    if (exitCode !== 0) {
+      throw new MediaProbeError(
+        `The audio in ${file.name} couldn't be decoded. It may be corrupt.`,
+        'corrupt'
+      );
+    }
+
+    probe.maxVolumeDb = parseMaxVolume(logs);
+    if (probe.maxVolumeDb !== undefined && probe.maxVolumeDb < SILENCE_THRESHOLD_DB) {
+      throw new MediaProbeError(
+        `${file.name} appears to be silent. Check that the right microphone or audio track was recorded.`,
+        'silent'
+      );
+    }
+
+    if (!probe.hasVideo) {
+      return { file, probe, audioExtracted: false };
+    }
+
+    const audio = await ffmpeg.readFile(audioOutput);
+    const audioFile = new File(
+      [audio],
+      `${file.name.replace(/\.[^/.]+$/, '')}.webm`,
+      { type: 'audio/webm' }
+    );
+    onProgress?.(100);
+    return { file: audioFile, probe, audioExtracted: true };
+  } finally {
+    ffmpeg.off('log', handleLog);
+    ffmpeg.off('progress', handleProgress);
+    if (!signal?.aborted) {
+      await ffmpeg.unmount(inputDir).catch(() => undefined);
+      await ffmpeg.deleteDir(inputDir).catch(() => undefined);
+      await ffmpeg.deleteFile(probeOutput).catch(() => undefined);
+      await ffmpeg.deleteFile(audioOutput).catch(() => undefined);
+    }
+  }
+};
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Check a recording and shrink it for upload if it's a video.
+ *
+ * @param file - Recording selected by the user
+ * @param options - Extraction progress callback and abort signal
+ * @returns The file to upload, with what was learned about it
+ * @throws {MediaProbeError} If the recording is corrupt, silent or has no audio
+ * @throws {DOMException} AbortError when cancelled
+ *
+ * @example
+ * ```typescript
+ * const { file, probe } = await prepareRecording(screenRecording, {
+ *   onProgress: (progress) => console.log(`Extracting audio: ${progress}%`)
+ * });
+ * console.log(probe?.audioCodec, file.size);
+ * ```
+ */
+export async function prepareRecording(
+  file: File,
+  options: PrepareRecordingOptions = {}
+): Promise<PreparedRecording> {
+  const { signal } = options;
+
+  return runExclusive(async () => {
+    signal?.throwIfAborted();
+
+    let ffmpeg: FFmpeg;
+    try {
+      ffmpeg = await loadFFmpeg();
+    } catch (error) {
+      console.warn('Media checks unavailable, uploading as is:', error);
+      return { file, audioExtracted: false };
+    }
+
+    // Stopping a running command means stopping the worker; it's reloaded on next use
+    const handleAbort = () => {
+      ffmpeg.terminate();
+      ffmpegPromise = null;
+    };
+    signal?.addEventListener('abort', handleAbort, { once: true });
+
+    try {
+      return await runPrepareJob(ffmpeg, file, options);
+    } catch (error) {
+      if (signal?.aborted) throw new DOMException('Upload cancelled', 'AbortError');
+      throw error;
+    } finally {
+      signal?.removeEventListener('abort', handleAbort);
+    }
+  });
+}
+
+export { MediaProbeError };
+export type { MediaProbe, MediaProbeErrorCode, PreparedRecording, PrepareRecordingOptions };
@@ -0,0 +1,262 @@
+/**
+ * Recording Store
+ *
+ * Keeps in-progress recordings in IndexedDB, chunk by chunk as the
+ * recorder produces them, so a tab crash, reload or phone sleep doesn't
+ * lose the meeting. A session stays stored until it's submitted or
+ * discarded; sessions left behind are offered for recovery on next launch.
+ *
+ * While a session is in use, this tab holds a Web Lock named after it, so
+ * other tabs don't mistake a live recording for an interrupted one.
+ */
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * A stored recording session
+ */
+interface RecordingSession {
+  id: string;
+  mimeType: string;
+  startedAt: string;
+  updatedAt: string;
+  durationSeconds: number; // recorded time as of the last stored chunk
+  chunkCount: number;
+  size: number; // bytes
+}
+
+interface StoredChunk {
+  sessionId: string;
+  index: number;
+  data: Blob;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DB_NAME = 'meetingSummarizer_recordings';
+const DB_VERSION = 1;
+const SESSIONS_STORE = 'sessions';
+const CHUNKS_STORE = 'chunks';
+
+const LOCK_PREFIX = 'meetingSummarizer_recording_';
+
+// ============================================================================
+// INDEXEDDB
+// ============================================================================
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+        db.createObjectStore(CHUNKS_STORE, { keyPath: ['sessionId', 'index'] });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+// Every chunk key of a session: [sessionId, 0] up to [sessionId, Infinity]
+const sessionChunkRange = (sessionId: string) =>
+  IDBKeyRange.bound([sessionId, 0], [sessionId, Infinity]);
+
+// ============================================================================
+// LOCKS
+// ============================================================================
+
+const heldLocks = new Map<string, () => void>();
+
+/**
+ * Hold the session's lock until `releaseLock` is called
+ */
+const acquireLock = (sessionId: string) => {
+  if (!navigator.locks || heldLocks.has(sessionId)) return;
+  navigator.locks
+    .request(`${LOCK_PREFIX}${sessionId}`, () =>
+      new Promise<void>(resolve => heldLocks.set(sessionId, resolve))
+    )
+    .catch((error) => console.warn('Failed to lock recording session:', error));
+};
+
+const releaseLock = (sessionId: string) => {
+  heldLocks.get(sessionId)?.();
+  heldLocks.delete(sessionId);
+};
+
+// ============================================================================
+// CHANGE NOTIFICATIONS
+// ============================================================================
+
+const changeListeners = new Set<() => void>();
+
+// Deferred so the lock manager has let go of a released session first
+const notifyChange = () => {
+  setTimeout(() => changeListeners.forEach(listener => listener()), 0);
+};
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Start storing a new recording
+ *
+ * @returns {Promise<string>} The new session's ID
+ */
+export async function createRecordingSession(mimeType: string): Promise<string> {
+  const db = await openDatabase();
+  const now = new Date().toISOString();
+  const session: RecordingSession = {
+    id: `recording_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
+    mimeType,
+    startedAt: now,
+    updatedAt: now,
+    durationSeconds: 0,
+    chunkCount: 0,
+    size: 0,
+  };
+
+  const transaction = db.transaction(SESSIONS_STORE, 'readwrite');
+  transaction.objectStore(SESSIONS_STORE).add(session);
+  await transactionDone(transaction);
+
+  acquireLock(session.id);
+  return session.id;
+}
+
+/**
+ * Store the next chunk of a recording
+ *
+ * @param {string} sessionId - Session from `createRecordingSession`
+ * @param {number} index - Chunk position, starting at 0
+ * @param {Blob} data - Chunk from the recorder's `dataavailable` event
+ * @param {number} durationSeconds - Total recorded time so far
+ */
+export async function appendRecordingChunk(
+  sessionId: string,
+  index: number,
+  data: Blob,
+  durationSeconds: number
+): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSIONS_STORE, CHUNKS_STORE], 'readwrite');
+  const sessions = transaction.objectStore(SESSIONS_STORE);
+
+  const chunk: StoredChunk = { sessionId, index, data };
+  transaction.objectStore(CHUNKS_STORE).put(chunk);
+
+  const session = await requestToPromise<RecordingSession | undefined>(sessions.get(sessionId));
+  if (session) {
+    sessions.put({
+      ...session,
+      updatedAt: new Date().toISOString(),
+      durationSeconds,
+      chunkCount: session.chunkCount + 1,
+      size: session.size + data.size,
+    });
+  }
+  await transactionDone(transaction);
+}
+
+/**
+ * Stored sessions that no open tab is using, newest first
+ */
+export async function getInterruptedRecordings(): Promise<RecordingSession[]> {
+  const db = await openDatabase();
+  const transaction = db.transaction(SESSIONS_STORE, 'readonly');
+  const sessions = await requestToPromise<RecordingSession[]>(transaction.objectStore(SESSIONS_STORE).getAll());
+
+  const inUse = new Set(heldLocks.keys());
+  if (navigator.locks) {
+    const { held = [] } = await navigator.locks.query();
+    held.forEach(lock => {
+      if (lock.name?.startsWith(LOCK_PREFIX)) inUse.add(lock.name.slice(LOCK_PREFIX.length));
+    });
+  }
+
+  return sessions
+    .filter(session => session.chunkCount > 0 && !inUse.has(session.id))
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+/**
+ * Reassemble a stored recording. The session is locked to this tab until
+ * it's deleted, so other tabs stop offering it for recovery.
+ */
+export async function loadRecording(sessionId: string): Promise<Blob> {
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSIONS_STORE, CHUNKS_STORE], 'readonly');
+  const [session, chunks] = await Promise.all([
+    requestToPromise<RecordingSession | undefined>(transaction.objectStore(SESSIONS_STORE).get(sessionId)),
+    requestToPromise<StoredChunk[]>(transaction.objectStore(CHUNKS_STORE).getAll(sessionChunkRange(sessionId))),
+  ]);
+  if (!session) {
+    throw new Error('This recording is no longer available.');
+  }
+
+  acquireLock(sessionId);
+  // Keys sort by index, so chunks come back in recording order
+  return new Blob(chunks.map(chunk => chunk.data), { type: session.mimeType });
+}
+
+/**
+ * Stop using a stored recording without deleting it, so it's offered
+ * for recovery again
+ */
+export function releaseRecording(sessionId: string): void {
+  releaseLock(sessionId);
+  notifyChange();
+}
+
+/**
+ * Be told when a stored recording is released for recovery or deleted
+ *
+ * @returns Unsubscribe function
+ */
+export function subscribeToRecordingChanges(listener: () => void): () => void {
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+}
+
+/**
+ * Delete a stored recording once it's submitted or discarded
+ */
+export async function deleteRecording(sessionId: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSIONS_STORE, CHUNKS_STORE], 'readwrite');
+  transaction.objectStore(SESSIONS_STORE).delete(sessionId);
+  transaction.objectStore(CHUNKS_STORE).delete(sessionChunkRange(sessionId));
+  await transactionDone(transaction);
+  releaseLock(sessionId);
+  notifyChange();
+}
+
+export type { RecordingSession };
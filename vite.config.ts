@@ -14,6 +14,10 @@ export default defineConfig(({ mode }) => ({
     mode === 'development' &&
     componentTagger(),
   ].filter(Boolean),
+  optimizeDeps: {
+    // ffmpeg.wasm starts its own worker, which pre-bundling breaks
+    exclude: ["@ffmpeg/ffmpeg"],
+  },
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),